@@ -0,0 +1,213 @@
+import * as OptionsManager from "../options/OptionsManager.js";
+import * as MessageListener from "../messages/MessageListener.js";
+import { OptionUpdateEvent, BackupEvent, BackupArguments } from "../messages/Messages.js";
+import * as SessionManager from "../core/SessionManager.js";
+import * as Export from "../core/Export.js";
+import { ExportedSession } from "../core/Export.js";
+import * as Import from "../core/Import.js";
+import * as Tags from "../core/Tags.js";
+import * as Notes from "../core/Notes.js";
+import { SessionId } from "../util/Types.js";
+
+const STORAGE_KEY = "backups";
+const ALARM_NAME = "backup";
+
+// the alarm only checks whether a backup is due
+const ALARM_PERIOD = 60; // minutes
+
+const intervals:Map<string, number> = new Map([
+    ["hourly", 60 * 60 * 1000],
+    ["daily",  24 * 60 * 60 * 1000],
+    ["weekly", 7 * 24 * 60 * 60 * 1000]
+]);
+
+export type BackupSession = ExportedSession & {
+    readonly id:SessionId; // bookmark id of the session at the time of the backup
+};
+
+export interface Backup {
+    readonly id:string;
+    readonly created:number; // timestamp
+    readonly sessions:BackupSession[];
+}
+
+export interface BackupDiff {
+    missingSessions:number; // sessions that have been removed since the backup
+    newSessions:number;
+    missingTabs:number;
+    newTabs:number;
+}
+
+export interface BackupSummary {
+    readonly id:string;
+    readonly created:number;
+    readonly tabs:number;
+    readonly diff:BackupDiff;
+    readonly sessions:{id:SessionId, title:string, tabs:number, exists:boolean}[];
+}
+
+export async function init():Promise<void> {
+    browser.alarms.onAlarm.addListener(alarm => {
+        if(alarm.name === ALARM_NAME) {
+            backupIfDue().catch(e => console.error("[TA] Backup failed.", e));
+        }
+    });
+
+    SessionManager.addCommand("create-backup", () => createBackup());
+    SessionManager.addCommand("restore-backup", async (data:BackupArguments) => {
+        await restore(data.backupId, data.sessionId);
+        SessionManager.updateBrowserActionContextMenu();
+    });
+    SessionManager.addDataHandler("backups", () => getSummaries());
+
+    MessageListener.add("OptionUpdate", (msg:OptionUpdateEvent) => {
+        if(msg.key === "backupInterval") {
+            schedule(msg.newValue as string);
+        }
+    });
+
+    await schedule(await OptionsManager.getValue<string>("backupInterval"));
+}
+
+async function schedule(interval:string):Promise<void> {
+    await browser.alarms.clear(ALARM_NAME);
+
+    if(intervals.has(interval)) {
+        browser.alarms.create(ALARM_NAME, {
+            delayInMinutes: 1,
+            periodInMinutes: ALARM_PERIOD
+        });
+    }
+}
+
+async function loadBackups():Promise<Backup[]> {
+    const data = await browser.storage.local.get(STORAGE_KEY);
+    return (data[STORAGE_KEY] as Backup[]) || [];
+}
+
+async function backupIfDue():Promise<void> {
+    const interval:number = intervals.get(await OptionsManager.getValue<string>("backupInterval"));
+    const [lastBackup] = await loadBackups();
+
+    if(interval && (!lastBackup || Date.now() - lastBackup.created >= interval)) {
+        await createBackup();
+    }
+}
+
+async function getCurrentSessions():Promise<BackupSession[]> {
+    const [sessions, tags, notes] = await Promise.all([Export.getSessions(), Tags.getAll(), Notes.getAll()]);
+
+    return sessions.map(session => Object.assign(
+        { id: session.id },
+        Export.toExportedSession(session, tags.get(session.id), notes)
+    ));
+}
+
+/**
+ * Stores a snapshot of all sessions. The oldest generation is dropped if necessary.
+ * Nothing is stored if the sessions did not change since the last backup.
+ */
+export async function createBackup():Promise<void> {
+    const generations:number = parseInt(await OptionsManager.getValue<string>("backupGenerations"));
+    const sessions:BackupSession[] = await getCurrentSessions();
+    let backups:Backup[] = await loadBackups();
+
+    if(backups.length > 0 && JSON.stringify(backups[0].sessions) === JSON.stringify(sessions)) {
+        console.log("[TA] Sessions did not change since the last backup.");
+        return;
+    }
+
+    backups.unshift({
+        id: Date.now() + "",
+        created: Date.now(),
+        sessions: sessions
+    });
+
+    await browser.storage.local.set({[STORAGE_KEY]: backups.slice(0, generations)});
+    console.log(`[TA] Created backup of ${sessions.length} sessions.`);
+
+    BackupEvent.send();
+}
+
+function countTabs(sessions:ExportedSession[]):number {
+    return sessions.reduce((n, session) => n + session.tabs.length, 0);
+}
+
+function diff(backup:Backup, current:BackupSession[]):BackupDiff {
+    const currentSessions:Map<SessionId, BackupSession> = new Map(current.map(s => [s.id, s] as [SessionId, BackupSession]));
+    const backupIds:Set<SessionId> = new Set(backup.sessions.map(s => s.id));
+
+    let result:BackupDiff = {
+        missingSessions: 0,
+        newSessions: 0,
+        missingTabs: 0,
+        newTabs: 0
+    };
+
+    backup.sessions.forEach(session => {
+        const now:BackupSession = currentSessions.get(session.id);
+
+        if(!now) {
+            result.missingSessions++;
+            result.missingTabs += session.tabs.length;
+        } else {
+            const urls:Set<string> = new Set(session.tabs.map(tab => tab.url));
+            const currentURLs:Set<string> = new Set(now.tabs.map(tab => tab.url));
+
+            result.missingTabs += session.tabs.filter(tab => !currentURLs.has(tab.url)).length;
+            result.newTabs += now.tabs.filter(tab => !urls.has(tab.url)).length;
+        }
+    });
+
+    current.filter(session => !backupIds.has(session.id)).forEach(session => {
+        result.newSessions++;
+        result.newTabs += session.tabs.length;
+    });
+
+    return result;
+}
+
+/**
+ * Lists all backups (most recent first) and compares them with the current sessions.
+ */
+export async function getSummaries():Promise<BackupSummary[]> {
+    const [backups, current] = await Promise.all([loadBackups(), getCurrentSessions()]);
+    const currentIds:Set<SessionId> = new Set(current.map(s => s.id));
+
+    return backups.map(backup => ({
+        id: backup.id,
+        created: backup.created,
+        tabs: countTabs(backup.sessions),
+        diff: diff(backup, current),
+        sessions: backup.sessions.map(session => ({
+            id: session.id,
+            title: session.title,
+            tabs: session.tabs.length,
+            exists: currentIds.has(session.id)
+        }))
+    }));
+}
+
+/**
+ * Restores sessions from a backup as new sessions.
+ * @param backupId
+ * @param sessionId (optional) Restore only this session, otherwise all sessions that do not exist anymore
+ */
+export async function restore(backupId:string, sessionId?:SessionId):Promise<void> {
+    const backup:Backup = (await loadBackups()).find(b => b.id === backupId);
+
+    if(!backup) {
+        throw new Error(`Backup ${backupId} does not exist.`);
+    }
+
+    let sessions:BackupSession[];
+
+    if(sessionId) {
+        sessions = backup.sessions.filter(session => session.id === sessionId);
+    } else {
+        const currentIds:Set<SessionId> = new Set((await getCurrentSessions()).map(s => s.id));
+        sessions = backup.sessions.filter(session => !currentIds.has(session.id));
+    }
+
+    await Import.importSessions(sessions);
+}
@@ -4,8 +4,13 @@ import * as ClassicSessionManager from "../core/ClassicSessionManager.js";
 import { Tab, ContextMenuId, Bookmark, SessionId } from "../util/Types.js";
 import ActiveSession from "../core/ActiveSession.js";
 import TabData from "../core/TabData.js";
+import * as Favicons from "../core/Favicons.js";
 import { SessionContentUpdate } from "../messages/Messages.js";
 import { createTab } from "../util/WebExtAPIHelpers.js";
+import * as SessionGroups from "../core/SessionGroups.js";
+import { SessionTreeFolder } from "../core/SessionGroups.js";
+import * as Duplicates from "../core/Duplicates.js";
+import * as Thumbnails from "../core/Thumbnails.js";
 
 let shown:boolean = false;
 let dynamicMenus:ContextMenuId[] = [];
@@ -65,8 +70,8 @@ async function createMenuForTabs(tabs:Tab[]) {
         }
     });
 
-    // get list of sessions (active + non-active)
-    let sessions:Bookmark[] = await SessionManager.getSessionBookmarks();
+    // get tree of sessions (active + non-active) and groups
+    let sessions:SessionTreeFolder[] = await SessionManager.getSessionTree();
     let activeSessions:Set<SessionId> = new Set(
         ActiveSessionManager.getActiveSessions().map(data => data.bookmarkId)
     );
@@ -97,8 +102,40 @@ async function createMenuForTabs(tabs:Tab[]) {
     }
 }
 
+function getMenuTitle(bookmark:Bookmark):string {
+    return "&" + bookmark.title.replace(/&/ig, "&&").trim();
+}
+
+/**
+ * Creates menu items for a session tree, groups are added as submenus.
+ * @param tree Sessions and groups in the root folder.
+ * @param parentId Parent menu id.
+ * @param createItem Creates a menu item for a single session.
+ */
+function createSessionItems(
+    tree:SessionTreeFolder[],
+    parentId:ContextMenuId,
+    createItem:(session:Bookmark, parentId:ContextMenuId) => void
+) {
+    tree.forEach(folder => {
+        if(SessionGroups.isGroup(folder)) {
+            if(folder.children.length === 0) { return; }
+
+            const groupMenuId = browser.menus.create({
+                parentId: parentId,
+                id: parentId + "-group-" + folder.id,
+                title: getMenuTitle(folder)
+            });
+
+            folder.children.forEach(session => createItem(session, groupMenuId));
+        } else {
+            createItem(folder, parentId);
+        }
+    });
+}
+
 async function addToSessionMenu(
-    sessions:Bookmark[],
+    sessions:SessionTreeFolder[],
     currentSessionIds:Set<SessionId>,
     activeSessions:Set<SessionId>,
     tabs:Tab[]
@@ -137,9 +174,9 @@ async function addToSessionMenu(
     }
 
     // add to existing session
-    sessions.forEach(session => browser.menus.create({
-        parentId: "add",
-        title: "&" + session.title.replace(/&/ig, "&&").trim(),
+    createSessionItems(sessions, "add", (session, parentId) => browser.menus.create({
+        parentId: parentId,
+        title: getMenuTitle(session),
         icons: activeSessions.has(session.id) ? {
             "16": "img/browserMenu/active.svg",
             "32": "img/browserMenu/active.svg"
@@ -148,6 +185,9 @@ async function addToSessionMenu(
         onclick: async (info) => {
             let added = false;
 
+            // skip tabs that are already part of the session (if enabled)
+            const newTabs:Tab[] = await Duplicates.filterNewTabs(tabs, session.id);
+
             // move tabs to active session
             if(activeSessions.has(session.id)) {
                 let as = ActiveSessionManager.getActiveSession(session.id);
@@ -157,7 +197,7 @@ async function addToSessionMenu(
                 if(as.getWindowId() !== null) {
                     // move or copy tabs to new session
                     if(currentSessionIds.size === 0) {
-                        for(let tab of tabs) {
+                        for(let tab of newTabs) {
                             await browser.tabs.move(tab.id, {
                                 windowId: as.getWindowId(),
                                 index: tab.pinned ? 0 : -1
@@ -165,7 +205,7 @@ async function addToSessionMenu(
                         }
                     } else {
                         // duplicate tabs
-                        for(let tab of tabs) {
+                        for(let tab of newTabs) {
                             let details = TabData.createFromTab(tab).getTabCreateProperties(true);
                             details.windowId = as.getWindowId();
                             delete details.index;
@@ -177,22 +217,27 @@ async function addToSessionMenu(
             }
             
             // otherwise just create the bookmark
+            // (tabs of active sessions are reported to the sidebar by the session itself)
             if(!added) {
-                for(let tab of tabs) {
-                    let createDetails = TabData.createFromTab(tab).getBookmarkCreateDetails(session.id);
+                let addedTabs:string[] = [];
+
+                for(let tab of newTabs) {
+                    const data:TabData = TabData.createFromTab(tab);
+                    let createDetails = data.getBookmarkCreateDetails(session.id);
                     delete createDetails.index;
-                    await browser.bookmarks.create(createDetails);
+                    addedTabs.push((await browser.bookmarks.create(createDetails)).id);
+                    Favicons.captureFromTab(tab, data);
                 }
-            }
 
-            // update sidebar
-            SessionContentUpdate.send(session.id);
+                // update sidebar
+                SessionContentUpdate.sendChanges(session.id, {addedTabs: addedTabs});
+            }
         }
     }));
 }
 
 async function addAndSetAsideMenu(
-    sessions:Bookmark[],
+    sessions:SessionTreeFolder[],
     activeSessions:Set<SessionId>,
     tabs:Tab[]
 ) {
@@ -205,7 +250,16 @@ async function addAndSetAsideMenu(
     );
 
     // ignore active sessions as this operation does not make sense
-    sessions = sessions.filter(session => !activeSessions.has(session.id));
+    sessions = sessions
+        .map(folder => {
+            if(SessionGroups.isGroup(folder)) {
+                folder = Object.assign({}, folder, {
+                    children: folder.children.filter(session => !activeSessions.has(session.id))
+                });
+            }
+            return folder;
+        })
+        .filter(folder => SessionGroups.isGroup(folder) ? folder.children.length > 0 : !activeSessions.has(folder.id));
 
     // create new session
     browser.menus.create({
@@ -225,21 +279,32 @@ async function addAndSetAsideMenu(
         });
     }
 
-    sessions.forEach(session => browser.menus.create({
-        parentId: "add-n-close",
-        title: "&" + session.title.replace(/&/ig, "&&").trim(),
+    createSessionItems(sessions, "add-n-close", (session, parentId) => browser.menus.create({
+        parentId: parentId,
+        title: getMenuTitle(session),
         onclick: async (info) => {
+            // tabs that are already part of the session are only closed (if enabled)
+            const newTabs:Tab[] = await Duplicates.filterNewTabs(tabs, session.id);
+
+            let addedTabs:string[] = [];
+
             for(let tab of tabs) {
-                const data = TabData.createFromTab(tab);
-                let createDetails = data.getBookmarkCreateDetails(session.id);
-                delete createDetails.index;
-                await browser.bookmarks.create(createDetails);
+                if(newTabs.includes(tab)) {
+                    const data = TabData.createFromTab(tab);
+                    let createDetails = data.getBookmarkCreateDetails(session.id);
+                    delete createDetails.index;
+                    const tabBookmark:Bookmark = await browser.bookmarks.create(createDetails);
+                    addedTabs.push(tabBookmark.id);
+                    Favicons.captureFromTab(tab, data);
+
+                    await Thumbnails.capture([[tab.id, tabBookmark.id]]);
+                }
 
                 browser.tabs.remove(tab.id);
             }
             
             // update sidebar
-            SessionContentUpdate.send(session.id);
+            SessionContentUpdate.sendChanges(session.id, {addedTabs: addedTabs});
         }
     }));
 }
@@ -1,5 +1,11 @@
 import { attempt } from "../util/PromiseUtils.js";
 import * as OptionsManager from "../options/OptionsManager.js";
+import { StoredMap } from "../util/StorageMap.js";
+import { TrashEntry } from "../core/Trash.js";
+import { Backup } from "./Backups.js";
+import { Schedule } from "../core/Schedules.js";
+import { StoredTabState } from "../core/TabState.js";
+import { ClosedEntry } from "../core/RecentlyClosed.js";
 
 let setupRequired:boolean = false;
 let restartRequired:boolean = false;
@@ -12,6 +18,17 @@ type StoredData = {
     "version"?:number,
     "options"?:any, // user options
     "setup"?:boolean, // (user) setup completed flag
+    "trash"?:TrashEntry[], // recently removed sessions & tabs
+    "backups"?:Backup[], // session backups (most recent first)
+    "tags"?:StoredMap<string[]>, // session tags (session id -> tags)
+    "notes"?:StoredMap<string>, // session & tab notes (bookmark id -> note)
+    "schedules"?:StoredMap<Schedule>, // reminders & auto-archiving (session id -> schedule)
+    "groups"?:StoredMap<boolean>, // session groups (group folder id -> true)
+    "archiveFolder"?:string, // bookmark id of the archive group
+    "tabStates"?:StoredMap<StoredTabState>, // tab states (tab bookmark id -> state)
+    "recentlyClosed"?:StoredMap<ClosedEntry>, // recently closed windows & tabs (session id -> entry)
+    "sessionContainers"?:StoredMap<string>, // session id -> cookie store id
+    "containerReplacements"?:StoredMap<string>, // missing cookie store id -> replacement
     "bookmarkFolderID"?:string // legacy
     "ba-icon"?:string // legacy
 };
@@ -0,0 +1,180 @@
+import * as OptionsManager from "../options/OptionsManager.js";
+import * as Schedules from "../core/Schedules.js";
+import { Schedule } from "../core/Schedules.js";
+import { StoredMap } from "../util/StorageMap.js";
+import * as SessionManager from "../core/SessionManager.js";
+import * as ActiveSessionManager from "../core/ActiveSessionManager.js";
+import { SessionEvent } from "../messages/Messages.js";
+import * as SessionGroups from "../core/SessionGroups.js";
+import { Bookmark, SessionId } from "../util/Types.js";
+
+// alarms and notifications of reminders are named after the session
+const REMINDER_PREFIX = "reminder-";
+const ARCHIVE_ALARM = "archive";
+
+// the alarm only checks whether sessions are due to be archived
+const ARCHIVE_PERIOD = 60; // minutes
+
+const ARCHIVE_FOLDER_KEY = "archiveFolder";
+
+export async function init():Promise<void> {
+    browser.alarms.onAlarm.addListener(alarm => {
+        if(alarm.name.startsWith(REMINDER_PREFIX)) {
+            remind(alarm.name.substr(REMINDER_PREFIX.length))
+                .catch(e => console.error("[TA] Reminder failed.", e));
+        } else if(alarm.name === ARCHIVE_ALARM) {
+            archiveStaleSessions().catch(e => console.error("[TA] Archiving failed.", e));
+        }
+    });
+
+    browser.notifications.onClicked.addListener(async notificationId => {
+        if(notificationId.startsWith(REMINDER_PREFIX)) {
+            const sessionId:SessionId = notificationId.substr(REMINDER_PREFIX.length);
+            browser.notifications.clear(notificationId);
+
+            if(ActiveSessionManager.getActiveSession(sessionId) === undefined) {
+                await SessionManager.restore(sessionId, false);
+            }
+        }
+    });
+
+    browser.storage.onChanged.addListener((changes, areaName) => {
+        const change = changes[Schedules.STORAGE_KEY];
+
+        if(areaName === "local" && change) {
+            updateReminders(change.oldValue || {}, change.newValue || {})
+                .catch(e => console.error("[TA] Failed to update reminders.", e));
+        }
+    });
+
+    browser.alarms.create(ARCHIVE_ALARM, {
+        delayInMinutes: 1,
+        periodInMinutes: ARCHIVE_PERIOD
+    });
+
+    // alarms do not persist across browser restarts
+    await scheduleReminders();
+}
+
+/**
+ * Recreates the alarms of all reminders. Reminders that are overdue fire immediately.
+ */
+async function scheduleReminders():Promise<void> {
+    const alarms = await browser.alarms.getAll();
+    await Promise.all(alarms
+        .filter(alarm => alarm.name.startsWith(REMINDER_PREFIX))
+        .map(alarm => browser.alarms.clear(alarm.name))
+    );
+
+    (await Schedules.getAll()).forEach((schedule, sessionId) => {
+        if(schedule.remindAt) {
+            browser.alarms.create(REMINDER_PREFIX + sessionId, {
+                when: Math.max(schedule.remindAt, Date.now() + 1000)
+            });
+        }
+    });
+}
+
+/**
+ * Updates the alarms of the sessions whose reminder has changed.
+ */
+async function updateReminders(oldSchedules:StoredMap<Schedule>, newSchedules:StoredMap<Schedule>):Promise<void> {
+    const sessionIds:Set<SessionId> = new Set(Object.keys(oldSchedules).concat(Object.keys(newSchedules)));
+
+    for(const sessionId of sessionIds) {
+        const oldSchedule:Schedule = oldSchedules[sessionId] || {};
+        const newSchedule:Schedule = newSchedules[sessionId] || {};
+
+        if(oldSchedule.remindAt === newSchedule.remindAt) {
+            continue;
+        }
+
+        await browser.alarms.clear(REMINDER_PREFIX + sessionId);
+
+        if(newSchedule.remindAt) {
+            browser.alarms.create(REMINDER_PREFIX + sessionId, {
+                when: Math.max(newSchedule.remindAt, Date.now() + 1000)
+            });
+        }
+    }
+}
+
+/**
+ * Shows the reminder notification of a session. Reminders only fire once.
+ */
+async function remind(sessionId:SessionId):Promise<void> {
+    const schedule:Schedule = await Schedules.getSchedule(sessionId);
+    const [session] = await browser.bookmarks.get(sessionId).catch(() => [] as Bookmark[]);
+
+    if(!session || !schedule.remindAt) {
+        return;
+    }
+
+    await Schedules.setSchedule(sessionId, {archiveAfter: schedule.archiveAfter});
+    SessionEvent.send(sessionId, "meta-update");
+
+    await browser.notifications.create(REMINDER_PREFIX + sessionId, {
+        type: "basic",
+        iconUrl: browser.runtime.getURL("img/browserAction/dark.svg"),
+        title: browser.i18n.getMessage("reminder_notification_title"),
+        message: browser.i18n.getMessage("reminder_notification_message", session.title)
+    });
+}
+
+/**
+ * Returns the archive group, it is created if it does not exist.
+ */
+async function getArchiveFolder():Promise<string> {
+    const rootFolderId:string = await OptionsManager.getValue<string>("rootFolder");
+    const data = await browser.storage.local.get(ARCHIVE_FOLDER_KEY);
+    const folderId:string|undefined = data[ARCHIVE_FOLDER_KEY];
+
+    if(folderId) {
+        const [folder] = await browser.bookmarks.get(folderId).catch(() => [] as Bookmark[]);
+
+        if(folder && folder.parentId === rootFolderId) {
+            return folderId;
+        }
+    }
+
+    const folder:Bookmark = await browser.bookmarks.create({
+        title: browser.i18n.getMessage("session_archive_title"),
+        type: "folder",
+        parentId: rootFolderId
+    });
+
+    await SessionGroups.addGroup(folder.id);
+    await browser.storage.local.set({[ARCHIVE_FOLDER_KEY]: folder.id});
+    await SessionEvent.send(folder.id, "group-created");
+
+    return folder.id;
+}
+
+/**
+ * Moves sessions that have not been changed for the configured number of days into the archive group.
+ * Active sessions are not archived.
+ */
+async function archiveStaleSessions():Promise<void> {
+    const schedules:Map<SessionId, Schedule> = await Schedules.getAll();
+    const sessions:Bookmark[] = (await SessionManager.getSessionBookmarks()).filter(session => {
+        const archiveDate:number|undefined = Schedules.getArchiveDate(session, schedules.get(session.id) || {});
+
+        return archiveDate !== undefined && archiveDate <= Date.now()
+            && ActiveSessionManager.getActiveSession(session.id) === undefined;
+    });
+
+    if(sessions.length === 0) {
+        return;
+    }
+
+    const archiveFolderId:string = await getArchiveFolder();
+
+    for(const session of sessions) {
+        // archiving is done once, the reminder is kept
+        await Schedules.setSchedule(session.id, {remindAt: schedules.get(session.id).remindAt});
+
+        if(session.parentId !== archiveFolderId) {
+            await SessionManager.moveToGroup(session.id, archiveFolderId);
+        }
+    }
+}
@@ -5,6 +5,11 @@ import * as KeyboardCommands from "./KeyboardCommands.js";
 import * as MessageListener from "../messages/MessageListener.js";
 import * as BrowserTabContextMenu from "./BrowserTabContextMenu.js";
 import * as Migration from "./Migration.js";
+import * as Backups from "./Backups.js";
+import * as Thumbnails from "../core/Thumbnails.js";
+import * as Favicons from "../core/Favicons.js";
+import * as TabState from "../core/TabState.js";
+import * as Scheduler from "./Scheduler.js";
 
 MessageListener.setDestination("background");
 
@@ -23,6 +28,12 @@ MessageListener.setDestination("background");
     KeyboardCommands.init();
 
     SessionManager.init().then(() => {
+        Backups.init();
+        Thumbnails.init();
+        Favicons.init();
+        TabState.init();
+        Scheduler.init();
+
         MessageListener.add("*", (message:Message) => {
             if(message.type === "SessionCommand") {
                 let cmd:SessionCommand = message as SessionCommand;
@@ -8,15 +8,29 @@ import {
     TabAttachedListener,
     TabDetachedListener,
     TabMovedListener,
-    WindowRemovedListener
+    WindowRemovedListener,
+    BookmarkMovedListener
 } from "../util/Types";
 import { SessionContentUpdate } from "../messages/Messages.js";
 import * as ActiveSessionManager from "./ActiveSessionManager.js";
 import { createTab } from "../util/WebExtAPIHelpers.js";
+import * as Trash from "./Trash.js";
+import * as Thumbnails from "./Thumbnails.js";
+import * as Favicons from "./Favicons.js";
+import * as TabState from "./TabState.js";
+import * as RecentlyClosed from "./RecentlyClosed.js";
+import * as Containers from "./Containers.js";
+import * as RestoreScheduler from "./RestoreScheduler.js";
 
 type TabBookmark = [number, string];
 const TAB_REMOVE_DELAY = 250;
+// bookmark updates are delayed to coalesce rapid tab changes (e.g. while a page is loading)
+const TAB_UPDATE_DELAY = 250;
+// loading tabs are updated at the latest after this time
+const TAB_UPDATE_MAX_DELAY = 3000;
 const TAB_ERROR_PAGE_PREFIX = browser.runtime.getURL("html/tab-error.html");
+// new tabs with these URLs are opened in the default container of the session
+const NEW_TAB_URLS = new Set(["about:newtab", "about:home"]);
 
 export interface ActiveSessionData {
     readonly bookmarkId;
@@ -25,6 +39,16 @@ export interface ActiveSessionData {
     readonly tabs:number[];
 }
 
+/**
+ * Checks whether a tab is in a state that should not be stored.
+ */
+function isTransientTab(tab:Tab):boolean {
+    // (discarded) loading tabs cycle through a phase where they are about:blank
+    // do not store tab error URL, keep the URL that could not be restored
+    // tabs that are replaying their history will return to the stored URL
+    return tab.url === "about:blank" || tab.url.startsWith(TAB_ERROR_PAGE_PREFIX) || TabState.isReplaying(tab.id);
+}
+
 export default class ActiveSession {
     public readonly bookmarkId:string;
     private title:string;
@@ -38,6 +62,10 @@ export default class ActiveSession {
     private bookmarkRemoveQueue:string[] = [];
     private removeTimeoutId:number = 0;
 
+    // maps ids of tabs with pending bookmark updates to the time of their first change
+    private tabUpdateQueue:Map<number, number> = new Map();
+    private updateTimeoutId:number = 0;
+
     // this is needed to avoid duplicate bookmarks for tabs activated via the sidebar
     private ignoreNextCreatedTab:boolean = false;
 
@@ -49,25 +77,28 @@ export default class ActiveSession {
     private tabUpdatedListener:TabUpdatedListener;
     private tabMovedListener:TabMovedListener;
     private wndRemovedListener:WindowRemovedListener;
+    private bookmarkMovedListener:BookmarkMovedListener;
 
     constructor(sessionBookmark:Bookmark) {
         this.bookmarkId = sessionBookmark.id;
         this.title = sessionBookmark.title;
     }
 
-    /** Restores a session. If `tabBookmark` is set then only this single tab is restored. */
-    private static async restore(sessionBookmark:Bookmark, tabBookmark?:Bookmark):Promise<ActiveSession> {
+    /**
+     * Restores a session. If `tabBookmark` is set then only this single tab is restored.
+     * If `newWindow` is set the session will be restored into a new window (regardless of the windowedSession option).
+     */
+    private static async restore(sessionBookmark:Bookmark, tabBookmark?:Bookmark, newWindow:boolean = false):Promise<ActiveSession> {
         // create ActiveSession instance
         let activeSession:ActiveSession = new ActiveSession(sessionBookmark);
 
         // load options
         const windowedSession:boolean = await OptionsManager.getValue("windowedSession");
-        const discardTabs:boolean = await OptionsManager.getValue("lazyLoading");
 
         let indexOffset = 0;
 
         let emptyTab:Tab = null;
-        if(windowedSession) {
+        if(windowedSession || newWindow) {
             // windowed mode
             let wnd:Window = await activeSession.createSessionWindow();
             // new window contains a "newtab" tab
@@ -80,10 +111,25 @@ export default class ActiveSession {
         // open a single tab or all tabs
         let tabsToOpen:Bookmark[] = tabBookmark ? [tabBookmark] : sessionBookmark.children;
 
+        // a single tab is activated, a new session window shows its first (unpinned) tab
+        let activeTab:Bookmark|undefined = tabBookmark;
+        if(!activeTab && emptyTab) {
+            activeTab = tabsToOpen.find(bm => !TabData.createFromBookmark(bm).pinned);
+        }
+
+        const activeTabId:string|undefined = activeTab ? activeTab.id : undefined;
+        const plan:RestoreScheduler.RestorePlan = await RestoreScheduler.createPlan(tabsToOpen, activeTabId);
+
         // add tabs
-        await Promise.all(
+        const tabs:Tab[] = await Promise.all(
             tabsToOpen.map(
-                bookmark => activeSession.openBookmarkTab(bookmark, !discardTabs || tabBookmark !== undefined, false, indexOffset)
+                bookmark => activeSession.openBookmarkTab(
+                    bookmark,
+                    bookmark.id === activeTabId,
+                    false,
+                    indexOffset,
+                    plan.loadNow.has(bookmark.id)
+                )
             )
         );
 
@@ -95,19 +141,107 @@ export default class ActiveSession {
 
         activeSession.setEventListeners();
 
+        if(plan.progressive) {
+            RestoreScheduler.loadProgressively(tabs);
+        }
+
         return activeSession;
     }
 
     /**
      * Creates an active session and restores all tabs.
      * @param sessionId - The bookmark id of the session to be restored
+     * @param newWindow - (Optional) Restore into a new window
      */
-    public static async restoreAll(sessionId:string):Promise<ActiveSession> {
+    public static async restoreAll(sessionId:string, newWindow:boolean = false):Promise<ActiveSession> {
         // get session bookmark & children
         let sessionBookmark:Bookmark = (await browser.bookmarks.getSubTree(sessionId))[0];
         console.assert(sessionBookmark && sessionBookmark.children.length > 0);
 
-        return await ActiveSession.restore(sessionBookmark);
+        if(!newWindow && await OptionsManager.getValue<boolean>("restoreFromRecentlyClosed")) {
+            const activeSession:ActiveSession|null = await ActiveSession.restoreFromRecentlyClosed(sessionBookmark);
+
+            if(activeSession) {
+                return activeSession;
+            }
+        }
+
+        return await ActiveSession.restore(sessionBookmark, undefined, newWindow);
+    }
+
+    /**
+     * Restores the tabs of a session from the browser's "recently closed" list (including their history).
+     * Tabs that have been added to the session in the meantime are created from their bookmarks,
+     * restored tabs that have been removed from the session are closed.
+     * The lazy loading options apply to all of these tabs (see `RestoreScheduler`).
+     * @returns `null` if the session is not in the "recently closed" list anymore
+     */
+    private static async restoreFromRecentlyClosed(sessionBookmark:Bookmark):Promise<ActiveSession|null> {
+        const restoredTabs:RecentlyClosed.RestoredTabs|null = await RecentlyClosed.restore(sessionBookmark.id);
+
+        if(!restoredTabs) {
+            return null;
+        }
+
+        let activeSession:ActiveSession = new ActiveSession(sessionBookmark);
+        const windowedSession:boolean = await OptionsManager.getValue("windowedSession");
+
+        let emptyTab:Tab = null;
+        if(windowedSession) {
+            if(restoredTabs.windowId !== undefined) {
+                // the session window itself has been restored
+                await activeSession.setWindow(restoredTabs.windowId);
+            } else {
+                // the tabs will be moved to the new window
+                emptyTab = (await activeSession.createSessionWindow()).tabs[0];
+            }
+        }
+
+        const tabBookmarkIds:Set<string> = new Set(sessionBookmark.children.map(bm => bm.id));
+        const plan:RestoreScheduler.RestorePlan = await RestoreScheduler.createPlan(sessionBookmark.children);
+        let restored:Set<string> = new Set();
+        let tabs:Tab[] = [];
+        let loadNow:Tab[] = [];
+
+        for(const tab of restoredTabs.tabs) {
+            const tabBookmarkId = await browser.sessions.getTabValue(tab.id, "bookmarkID") as string;
+
+            if(tabBookmarkIds.has(tabBookmarkId) && !restored.has(tabBookmarkId)) {
+                await activeSession.addExistingTab(tab, tabBookmarkId);
+                restored.add(tabBookmarkId);
+                tabs.push(tab);
+
+                if(plan.loadNow.has(tabBookmarkId)) {
+                    loadNow.push(tab);
+                }
+            } else {
+                await browser.tabs.remove(tab.id);
+            }
+        }
+
+        // restored tabs have their own history and scroll position
+        await TabState.remove(Array.from(restored));
+
+        for(const tabBookmark of sessionBookmark.children.filter(bm => !restored.has(bm.id))) {
+            tabs.push(await activeSession.openBookmarkTab(
+                tabBookmark, false, false, 0, plan.loadNow.has(tabBookmark.id)
+            ));
+        }
+
+        if(emptyTab) {
+            await browser.tabs.remove(emptyTab.id);
+        }
+
+        activeSession.setEventListeners();
+
+        // the browser restores tabs without loading them
+        RestoreScheduler.load(loadNow).then(() => {
+            if(plan.progressive) {
+                RestoreScheduler.loadProgressively(tabs);
+            }
+        });
+
+        return activeSession;
     }
 
     /**
@@ -128,13 +262,21 @@ export default class ActiveSession {
      * If the session has its own window the tab will be moved to that window.
      * @param tab - A browser tab
      * @param tabBookmarkId - (Optional) The id of the bookmark representing this tab
+     * @returns The id of the bookmark representing this tab
      */
-    public async addExistingTab(tab:Tab, tabBookmarkId?:string):Promise<void> {
+    public async addExistingTab(tab:Tab, tabBookmarkId?:string):Promise<string> {
         if(!tabBookmarkId) {
+            const data:TabData = TabData.createFromTab(tab);
+            let createDetails = data.getBookmarkCreateDetails(this.bookmarkId);
+            Favicons.captureFromTab(tab, data);
+
+            // the bookmark position follows the tab position,
+            // tabs that will be moved to the session window are appended
+            createDetails.index = this.windowId && this.windowId !== tab.windowId ?
+                undefined : await this.getBookmarkIndex(tab);
+
             // create a bookmark for this tab
-            let tabBookmark:Bookmark = await browser.bookmarks.create(
-                TabData.createFromTab(tab).getBookmarkCreateDetails(this.bookmarkId)
-            );
+            let tabBookmark:Bookmark = await browser.bookmarks.create(createDetails);
 
             tabBookmarkId = tabBookmark.id;
         }
@@ -160,6 +302,8 @@ export default class ActiveSession {
         ]);
 
         this.tabs.set(tab.id, tabBookmarkId);
+
+        return tabBookmarkId;
     }
 
     /**
@@ -168,8 +312,9 @@ export default class ActiveSession {
      * @param makeActive (optional) Make this tab the active tab
      * @param skipCreateEvent (optional) Ignore the `tab created event` for this tab
      * @param offset (optional) Change the tab position (new index = old index + offset)
+     * @param load (optional) Load the tab instead of creating it discarded (active tabs are always loaded)
      */
-    public async openBookmarkTab(tabBookmark:Bookmark, makeActive:boolean=false, skipCreateEvent:boolean = true, offset:number = 0):Promise<Tab> {
+    public async openBookmarkTab(tabBookmark:Bookmark, makeActive:boolean=false, skipCreateEvent:boolean = true, offset:number = 0, load:boolean = makeActive):Promise<Tab> {
         console.assert(tabBookmark && tabBookmark.parentId === this.bookmarkId);
 
         let data:TabData = TabData.createFromBookmark(tabBookmark);
@@ -177,6 +322,9 @@ export default class ActiveSession {
 
         if(makeActive) {
             createProperties.active = true;
+        }
+
+        if(makeActive || load) {
             createProperties.discarded = false;
             createProperties.title = undefined;
         }
@@ -193,6 +341,12 @@ export default class ActiveSession {
         let browserTab:Tab = await createTab(createProperties);
         await this.addExistingTab(browserTab, tabBookmark.id);
 
+        // scroll position & previous URLs (replayed once the tab is loaded)
+        const state:TabState.StoredTabState|undefined = await TabState.get(tabBookmark.id);
+        if(state) {
+            TabState.replay(browserTab.id, tabBookmark.id, state);
+        }
+
         if(this.windowId) {
             // focus session window
             browser.windows.update(this.windowId, {
@@ -203,25 +357,293 @@ export default class ActiveSession {
         return browserTab;
     }
 
+    /**
+     * Adds an open tab that was part of another session.
+     * Its bookmark has to be moved to this session before.
+     * If the session has its own window the tab will be moved to that window.
+     * @param tabId - Id of the browser tab
+     * @param tabBookmarkId - The id of the bookmark representing this tab
+     */
+    public async adoptTab(tabId:number, tabBookmarkId:string):Promise<void> {
+        // add to the map first, the tab attached listener ignores known tabs
+        this.tabs.set(tabId, tabBookmarkId);
+
+        await Promise.all([
+            browser.sessions.setTabValue(tabId, "sessionID", this.bookmarkId),
+            browser.sessions.setTabValue(tabId, "bookmarkID", tabBookmarkId)
+        ]);
+
+        if(this.windowId) {
+            const tab:Tab = await browser.tabs.get(tabId);
+
+            if(tab.windowId !== this.windowId) {
+                await browser.tabs.move(tabId, {
+                    windowId: this.windowId,
+                    index: -1
+                });
+            }
+        }
+    }
+
+    /**
+     * Stops tracking the tabs of the given bookmarks (the tabs will not be closed).
+     * @param tabBookmarkIds - Bookmark ids of tabs from this session
+     * @returns Pairs of tab id and bookmark id of the released tabs that are open
+     */
+    public releaseTabs(tabBookmarkIds:string[]):TabBookmark[] {
+        const ids:Set<string> = new Set(tabBookmarkIds);
+        let released:TabBookmark[] = [];
+
+        this.tabs.forEach((tabBookmarkId, tabId) => {
+            if(ids.has(tabBookmarkId)) {
+                released.push([tabId, tabBookmarkId]);
+            }
+        });
+
+        released.forEach(([tabId]) => {
+            this.tabs.delete(tabId);
+            this.tabUpdateQueue.delete(tabId);
+        });
+
+        return released;
+    }
+
+    /**
+     * Moves the browser tab of a bookmark such that it matches the position of its bookmark.
+     * The tab is placed next to the open tab of the closest bookmark.
+     * @param tabBookmarkId - The id of the bookmark representing the tab, its bookmark has to be moved before
+     */
+    public async moveTab(tabBookmarkId:string):Promise<void> {
+        const tabId:number|undefined = this.getTabId(tabBookmarkId);
+
+        if(tabId === undefined) {
+            // tab is not open
+            return;
+        }
+
+        const [tab, tabBookmarks] = await Promise.all([
+            browser.tabs.get(tabId),
+            browser.bookmarks.getChildren(this.bookmarkId)
+        ]);
+
+        const bookmarkIndex:number = tabBookmarks.findIndex(bm => bm.id === tabBookmarkId);
+        const isOpen = (bm:Bookmark) => this.getTabId(bm.id) !== undefined;
+
+        // find the closest open tab before or after this tab
+        const previous:Bookmark = tabBookmarks.slice(0, bookmarkIndex).reverse().find(isOpen);
+        const next:Bookmark = tabBookmarks.slice(bookmarkIndex + 1).find(isOpen);
+        let reference:Tab;
+        let index:number;
+
+        if(previous) {
+            reference = await browser.tabs.get(this.getTabId(previous.id));
+            index = tab.windowId !== reference.windowId || tab.index > reference.index ?
+                reference.index + 1 : reference.index;
+        } else if(next) {
+            reference = await browser.tabs.get(this.getTabId(next.id));
+            index = tab.windowId !== reference.windowId || tab.index > reference.index ?
+                reference.index : reference.index - 1;
+        } else {
+            // this is the only open tab of this session
+            return;
+        }
+
+        if(tab.index !== index || tab.windowId !== reference.windowId) {
+            const [movedTab] = await browser.tabs.move(tabId, {
+                windowId: reference.windowId,
+                index: index
+            }) as Tab[];
+
+            if(movedTab && movedTab.index !== index) {
+                // the browser keeps pinned tabs in front of other tabs
+                // -> the bookmark has to follow the actual tab position
+                await this.updateBookmarkPosition(movedTab);
+            }
+        }
+    }
+
+    /**
+     * Computes the bookmark index that corresponds to the position of a tab.
+     * The index is relative to the closest tab of this session in the same window,
+     * other tabs (e.g. the pinned placeholder tab of the session window) are ignored.
+     * @param tab - A browser tab
+     * @param currentIndex - (Optional) The current index if the tab already has a bookmark in this session
+     * @returns The bookmark index or `undefined` if there is no other tab of this session in that window
+     */
+    private async getBookmarkIndex(tab:Tab, currentIndex?:number):Promise<number|undefined> {
+        const windowTabs:Tab[] = (await browser.tabs.query({windowId: tab.windowId}))
+            .filter(t => t.id !== tab.id && this.tabs.has(t.id));
+
+        const previous:Tab = windowTabs.filter(t => t.index < tab.index).pop();
+        const next:Tab = windowTabs.find(t => t.index > tab.index);
+
+        if(!previous && !next) {
+            return undefined;
+        }
+
+        const [reference] = await browser.bookmarks.get(this.tabs.get((previous || next).id));
+        let index:number = previous ? reference.index + 1 : reference.index;
+
+        if(currentIndex !== undefined && currentIndex < index) {
+            // the bookmark is removed before it is inserted again
+            index--;
+        }
+
+        return index;
+    }
+
+    /**
+     * Moves the bookmark of a tab such that it matches the position of the tab.
+     * @returns `true` if the bookmark has been moved
+     */
+    private async updateBookmarkPosition(tab:Tab):Promise<boolean> {
+        const tabBookmarkId:string = this.tabs.get(tab.id);
+        const [tabBookmark] = await browser.bookmarks.get(tabBookmarkId);
+
+        if(!tabBookmark || tabBookmark.parentId !== this.bookmarkId) {
+            return false;
+        }
+
+        const index:number|undefined = await this.getBookmarkIndex(tab, tabBookmark.index);
+
+        if(index === undefined || index === tabBookmark.index) {
+            return false;
+        }
+
+        await browser.bookmarks.move(tabBookmarkId, {index: index});
+        return true;
+    }
+
+    public getNumberOfOpenTabs():number {
+        return this.tabs.size;
+    }
+
+    /**
+     * Replaces open tabs of this session by new tabs (e.g. because their container has changed,
+     * tabs cannot change their container). The tab bookmarks have to be updated before.
+     * @param tabBookmarks - Bookmarks from this session, bookmarks of tabs that are not open are ignored
+     */
+    public async reopenTabs(tabBookmarks:Bookmark[]):Promise<void> {
+        for(const tabBookmark of tabBookmarks) {
+            const tabId:number|undefined = this.getTabId(tabBookmark.id);
+
+            if(tabId === undefined) {
+                continue;
+            }
+
+            const tab:Tab = await browser.tabs.get(tabId);
+            let createProperties = TabData.createFromBookmark(tabBookmark).getTabCreateProperties(tab.active);
+            createProperties.windowId = tab.windowId;
+            createProperties.index = tab.index;
+
+            if(this.windowId) {
+                this.ignoreNextCreatedTab = true;
+            }
+
+            const newTab:Tab = await createTab(createProperties);
+            await this.addExistingTab(newTab, tabBookmark.id);
+
+            // remove from the map first so the tab removed listener ignores this tab
+            this.tabs.delete(tabId);
+            await browser.tabs.remove(tabId);
+        }
+    }
+
+    /**
+     * Reopens a new tab of the session window in the default container of the session.
+     * @returns `true` if the tab has been replaced
+     */
+    private async reopenInSessionContainer(tab:Tab):Promise<boolean> {
+        if(!NEW_TAB_URLS.has(tab.url)) {
+            return false;
+        }
+
+        const cookieStoreId:string|undefined = await Containers.getSessionContainer(this.bookmarkId);
+
+        // the container might have been removed
+        if(!cookieStoreId || tab.cookieStoreId === cookieStoreId || !(await Containers.getIdentity(cookieStoreId))) {
+            return false;
+        }
+
+        // the new tab will be added by the tab created listener
+        await browser.tabs.create({
+            windowId: tab.windowId,
+            index: tab.index,
+            active: tab.active,
+            cookieStoreId: cookieStoreId
+        });
+        await browser.tabs.remove(tab.id);
+
+        return true;
+    }
+
     public async setTabAside(tabId:number):Promise<void> {
-        if(this.tabs.delete(tabId)) {
+        if(this.tabs.has(tabId)) {
+            await Thumbnails.capture([[tabId, this.tabs.get(tabId)]]);
+            await TabState.capture([[tabId, this.tabs.get(tabId)]]);
+
+            this.tabs.delete(tabId);
             browser.tabs.remove(tabId);
         } else {
             return Promise.reject(new Error(`Tab ${tabId} is not part of this session.`));
         }
     }
 
+    /**
+     * Removes a tab from this session: closes the browser tab (if it is open)
+     * and removes its bookmark. If it was the last tab the session is removed.
+     * @param tabBookmarkId - The id of the bookmark representing the tab
+     */
+    public async removeTab(tabBookmarkId:string):Promise<void> {
+        const tabBookmarks:Bookmark[] = await browser.bookmarks.getChildren(this.bookmarkId);
+
+        if(tabBookmarks.length <= 1) {
+            // sessions cannot be empty
+            return ActiveSessionManager.removeSession(this.bookmarkId);
+        }
+
+        const tabId:number|undefined = this.getTabId(tabBookmarkId);
+
+        if(tabId !== undefined) {
+            // the bookmark will be removed, pending updates are obsolete
+            this.tabUpdateQueue.delete(tabId);
+
+            if(this.tabs.size === 1) {
+                // this is the last open tab -> set the session aside (closes the session window)
+                await ActiveSessionManager.setAside(this.bookmarkId);
+            } else {
+                // remove from the map first so the tab removed listener ignores this tab
+                this.tabs.delete(tabId);
+                await browser.tabs.remove(tabId);
+            }
+        }
+
+        await Trash.addTabs([tabBookmarkId]);
+        await browser.bookmarks.remove(tabBookmarkId);
+
+        // update sidebar
+        SessionContentUpdate.sendChanges(this.bookmarkId, {removedTabs: [tabBookmarkId]});
+    }
+
     public async setTabsOrWindowAside():Promise<void> {
         this.removeEventListeners();
 
+        // write pending changes before the tabs are closed
+        await this.flushUpdateQueue();
+
         if(this.tabs.size > 0) {
+            await Thumbnails.capture(Array.from(this.tabs));
+            await TabState.capture(Array.from(this.tabs));
+
             if(this.windowId) {
                 this.tabs = new Map();
                 await browser.windows.remove(this.windowId);
+                await RecentlyClosed.remember(this.bookmarkId, 0);
             } else {
                 let tabIds:number[] = this.getTabsIds();
                 this.tabs = new Map();
                 await browser.tabs.remove(tabIds);
+                await RecentlyClosed.remember(this.bookmarkId, tabIds.length);
                 //TODO: prevent browser from closing
             }
         }
@@ -244,6 +666,9 @@ export default class ActiveSession {
     public async free():Promise<void> {
         this.removeEventListeners();
 
+        // write pending changes before the tabs are released
+        await this.flushUpdateQueue();
+
         // do not remove window when setAside() gets called
         this.windowId = null;
 
@@ -265,6 +690,16 @@ export default class ActiveSession {
         return Array.from(this.tabs.keys());
     }
 
+    private getTabId(tabBookmarkId:string):number|undefined {
+        for(let [tabId, bookmarkId] of this.tabs) {
+            if(bookmarkId === tabBookmarkId) {
+                return tabId;
+            }
+        }
+
+        return undefined;
+    }
+
     public getWindowId():number|null {
         return this.windowId;
     }
@@ -384,6 +819,9 @@ export default class ActiveSession {
         // clear queue
         this.bookmarkRemoveQueue = [];
 
+        // keep a copy to make this undoable
+        await Trash.addTabs(bookmarks);
+
         // remove bookmarks
         await Promise.all(
             bookmarks.map(
@@ -398,7 +836,89 @@ export default class ActiveSession {
             ActiveSessionManager.removeSession(this.bookmarkId);
         } else {
             // update sidebar
-            SessionContentUpdate.send(this.bookmarkId);
+            SessionContentUpdate.sendChanges(this.bookmarkId, {removedTabs: bookmarks});
+        }
+    }
+
+    private queueTabUpdate(tabId:number):void {
+        if(!this.tabUpdateQueue.has(tabId)) {
+            this.tabUpdateQueue.set(tabId, Date.now());
+        }
+
+        if(this.updateTimeoutId > 0) {
+            window.clearTimeout(this.updateTimeoutId);
+        }
+
+        this.updateTimeoutId = window.setTimeout(
+            () => this.updateBookmarksFromQueue(),
+            TAB_UPDATE_DELAY
+        );
+    }
+
+    /**
+     * Writes all pending tab updates without waiting for the tabs to finish loading.
+     */
+    private async flushUpdateQueue():Promise<void> {
+        if(this.updateTimeoutId > 0) {
+            window.clearTimeout(this.updateTimeoutId);
+            await this.updateBookmarksFromQueue(true);
+        }
+    }
+
+    /**
+     * Updates the bookmarks of all tabs in the update queue.
+     * Tabs that are still loading stay in the queue (up to `TAB_UPDATE_MAX_DELAY`).
+     * @param force - (Optional) Update loading tabs as well
+     */
+    private async updateBookmarksFromQueue(force:boolean = false):Promise<void> {
+        this.updateTimeoutId = 0;
+
+        const now:number = Date.now();
+        let changedTabs:string[] = [];
+
+        for(const [tabId, queuedSince] of Array.from(this.tabUpdateQueue)) {
+            const tabBookmarkId:string = this.tabs.get(tabId);
+            const tab:Tab|null = tabBookmarkId ? await browser.tabs.get(tabId).catch(() => null) : null;
+
+            if(!tab || isTransientTab(tab)) {
+                // tab is not part of this session anymore or the change will be followed by another update
+                this.tabUpdateQueue.delete(tabId);
+                continue;
+            } else if(!force && tab.status === "loading" && now - queuedSince < TAB_UPDATE_MAX_DELAY) {
+                // wait until the title of the new page is known
+                continue;
+            }
+
+            this.tabUpdateQueue.delete(tabId);
+
+            const [ bookmark ] = await browser.bookmarks.get(tabBookmarkId);
+
+            // the user might have moved the bookmark (see #117)
+            if(!bookmark || bookmark.parentId !== this.bookmarkId) {
+                continue;
+            }
+
+            const data:TabData = TabData.createFromTab(tab);
+            const update = data.getBookmarkUpdate();
+            Favicons.captureFromTab(tab, data);
+
+            if(update.title !== bookmark.title || update.url !== bookmark.url) {
+                await browser.bookmarks.update(tabBookmarkId, update);
+                changedTabs.push(tabBookmarkId);
+            }
+        }
+
+        // check loading tabs again
+        if(this.tabUpdateQueue.size > 0 && this.updateTimeoutId === 0 && !force) {
+            this.updateTimeoutId = window.setTimeout(
+                () => this.updateBookmarksFromQueue(),
+                TAB_UPDATE_DELAY
+            );
+        }
+
+        if(changedTabs.length > 0) {
+            // update sidebar
+            SessionContentUpdate.sendChanges(this.bookmarkId, {changedTabs: changedTabs});
         }
     }
 
@@ -457,7 +977,7 @@ export default class ActiveSession {
                 }
 
                 // update sidebar
-                SessionContentUpdate.send(this.bookmarkId);
+                SessionContentUpdate.sendChanges(this.bookmarkId, {removedTabs: [tabBookmarkId]});
 
                 if(this.tabs.size === 0) {
                     let tabBookmarks:Bookmark[] = await browser.bookmarks.getChildren(this.bookmarkId);
@@ -474,12 +994,13 @@ export default class ActiveSession {
 
         // added tabs
         this.tabAttachedListener = async (tabId, attachInfo) => {
-            if(attachInfo.newWindowId === this.windowId) {
+            // tabs that are already part of the session have been moved by adoptTab
+            if(attachInfo.newWindowId === this.windowId && !this.tabs.has(tabId)) {
                 let tab:Tab = await browser.tabs.get(tabId);
-                await this.addExistingTab(tab);
+                const tabBookmarkId:string = await this.addExistingTab(tab);
 
                 // update sidebar
-                SessionContentUpdate.send(this.bookmarkId);
+                SessionContentUpdate.sendChanges(this.bookmarkId, {addedTabs: [tabBookmarkId]});
             }
         };
 
@@ -499,10 +1020,14 @@ export default class ActiveSession {
                 || (tab.hasOwnProperty("openerTabId") && this.tabs.has(tab.openerTabId));
 
             if(addToSession) {
-                await this.addExistingTab(tab);
+                if(tab.windowId === this.windowId && await this.reopenInSessionContainer(tab)) {
+                    return;
+                }
+
+                const tabBookmarkId:string = await this.addExistingTab(tab);
 
                 // update sidebar
-                SessionContentUpdate.send(this.bookmarkId);
+                SessionContentUpdate.sendChanges(this.bookmarkId, {addedTabs: [tabBookmarkId]});
             }
         };
 
@@ -512,43 +1037,44 @@ export default class ActiveSession {
 
             // check if tab is part of this session
             if(tabBookmarkId) {
-                if(tab.url === "about:blank") {
-                    // (discarded) loading tabs cycle through a phase where they are about:blank
-                    return;
-                } else if(tab.url.startsWith(TAB_ERROR_PAGE_PREFIX)) {
-                    // do not store tab error URL, keep the URL that could not be restored
+                if(isTransientTab(tab)) {
                     return;
                 }
 
                 // only update session for certain changes
-                let update:boolean = tab.status === "complete"
+                let update:boolean = changeInfo.hasOwnProperty("status")
                     || changeInfo.hasOwnProperty("url")
                     || changeInfo.hasOwnProperty("title")
                     || changeInfo.hasOwnProperty("mutedInfo")
-                    || changeInfo.hasOwnProperty("pinned");
+                    || changeInfo.hasOwnProperty("pinned")
+                    || changeInfo.hasOwnProperty("isArticle");
 
                 if(update) {
-                    // update this Tabs bookmark
-                    await browser.bookmarks.update(
-                        tabBookmarkId,
-                        TabData.createFromTab(tab).getBookmarkUpdate()
-                    );
-
-                    // update sidebar
-                    SessionContentUpdate.send(this.bookmarkId);
+                    // the bookmark is updated after a short delay
+                    this.queueTabUpdate(tabId);
                 }
             }
         };
 
         this.tabMovedListener = async (tabId, moveInfo) => {
-            let tabBookmarkId:string = this.tabs.get(tabId);
-
             // check if tab is part of this session
-            if(tabBookmarkId) {
-                await browser.bookmarks.move(tabBookmarkId, { index: moveInfo.toIndex });
+            if(this.tabs.has(tabId)) {
+                const tab:Tab = await browser.tabs.get(tabId);
+
+                if(await this.updateBookmarkPosition(tab)) {
+                    // update sidebar
+                    SessionContentUpdate.sendChanges(this.bookmarkId, {changedTabs: [this.tabs.get(tabId)]});
+                }
+            }
+        };
+
+        // reordered bookmarks -> move the tabs as well
+        this.bookmarkMovedListener = async (id, moveInfo) => {
+            if(moveInfo.parentId === this.bookmarkId && moveInfo.oldParentId === this.bookmarkId) {
+                await this.moveTab(id);
 
                 // update sidebar
-                SessionContentUpdate.send(this.bookmarkId);
+                SessionContentUpdate.sendChanges(this.bookmarkId, {changedTabs: [id]});
             }
         };
 
@@ -569,11 +1095,12 @@ export default class ActiveSession {
         browser.tabs.onCreated.addListener(this.tabCreatedListener);
         browser.tabs.onRemoved.addListener(this.tabRemovedListener);
         browser.tabs.onUpdated.addListener(this.tabUpdatedListener);
+        browser.tabs.onMoved.addListener(this.tabMovedListener);
+        browser.bookmarks.onMoved.addListener(this.bookmarkMovedListener);
 
         if(this.windowId) {
             browser.tabs.onAttached.addListener(this.tabAttachedListener);
             browser.tabs.onDetached.addListener(this.tabDetachedListener);
-            browser.tabs.onMoved.addListener(this.tabMovedListener);
             browser.windows.onRemoved.addListener(this.wndRemovedListener);
         }
     }
@@ -582,11 +1109,12 @@ export default class ActiveSession {
         browser.tabs.onCreated.removeListener(this.tabCreatedListener);
         browser.tabs.onRemoved.removeListener(this.tabRemovedListener);
         browser.tabs.onUpdated.removeListener(this.tabUpdatedListener);
+        browser.tabs.onMoved.removeListener(this.tabMovedListener);
+        browser.bookmarks.onMoved.removeListener(this.bookmarkMovedListener);
 
         if(browser.tabs.onAttached.hasListener(this.tabAttachedListener)) {
             browser.tabs.onAttached.removeListener(this.tabAttachedListener);
             browser.tabs.onDetached.removeListener(this.tabDetachedListener);
-            browser.tabs.onMoved.removeListener(this.tabMovedListener);
             browser.windows.onRemoved.removeListener(this.wndRemovedListener);
         }
     }
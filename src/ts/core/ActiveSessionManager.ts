@@ -3,8 +3,11 @@ import { Tab, Bookmark, SessionId, Window } from "../util/Types.js";
 import { SessionEvent, SessionContentUpdate } from "../messages/Messages.js";
 import * as OptionsManager from "../options/OptionsManager.js";
 import TabData from "./TabData.js";
+import * as Favicons from "./Favicons.js";
+import * as Schedules from "./Schedules.js";
 import * as BrowserAction from "../browserAction/BrowserActionManager.js";
 import { getAnotherWindow } from "../util/WebExtAPIHelpers.js";
+import * as Trash from "./Trash.js";
 
 type TabBookmark = [number, SessionId];
 
@@ -42,7 +45,7 @@ export async function createSessionFromTabs(details:CreateSessionDetails):Promis
     }
 
     // add tabs to session
-    let promises:Promise<void>[] = [];
+    let promises:Promise<string>[] = [];
     for(const tab of details.tabs) {
         const data:TabData = TabData.createFromTab(tab);
 
@@ -50,6 +53,7 @@ export async function createSessionFromTabs(details:CreateSessionDetails):Promis
         const bm:Bookmark = await browser.bookmarks.create(
             data.getBookmarkCreateDetails(session.bookmarkId)
         );
+        Favicons.captureFromTab(tab, data);
 
         // we don't have to wait for this promise
         // in order to create new bookmarks
@@ -92,13 +96,13 @@ export function getSessionFromTab(tab:Tab):ActiveSession {
     return null;
 }
 
-export async function restore(sessionId:SessionId):Promise<void> {
+export async function restore(sessionId:SessionId, newWindow:boolean = false):Promise<void> {
     // sanity-check
     if (activeSessions.has(sessionId)) {
         throw new Error(`Session ${sessionId} is already active.`);
     }
 
-    let session:ActiveSession = await ActiveSession.restoreAll(sessionId);
+    let session:ActiveSession = await ActiveSession.restoreAll(sessionId, newWindow);
     activeSessions.set(sessionId, session);
 
     if((await browser.bookmarks.get(sessionId))[0].index > 0) {
@@ -124,6 +128,92 @@ export async function restoreSingle(sessionId:SessionId, tabBookmark:Bookmark):P
     }
 }
 
+/**
+ * Transfers open tabs from one session to another, the tab bookmarks have to be moved before.
+ * If the target session is not active it will be activated with the transferred tabs.
+ * A source session without open tabs will no longer be active.
+ * Transferred tabs do not stay in the window of a source session that is still active.
+ * @param sourceId Bookmark id of the session the tabs were part of.
+ * @param targetId Bookmark id of the session the tabs are now part of.
+ * @param tabBookmarkIds Bookmark ids of the transferred tabs.
+ */
+export async function transferTabs(sourceId:SessionId, targetId:SessionId, tabBookmarkIds:string[]):Promise<void> {
+    const source:ActiveSession = activeSessions.get(sourceId);
+
+    if(!source) {
+        // there are no open tabs to transfer
+        return;
+    }
+
+    const tabs:TabBookmark[] = source.releaseTabs(tabBookmarkIds);
+    const sourceWindowId:number|null = source.getWindowId();
+    const sourceFreed:boolean = source.getNumberOfOpenTabs() === 0;
+
+    if(sourceFreed) {
+        // the session window (if any) will not be closed
+        await source.free();
+        activeSessions.delete(sourceId);
+
+        if(sourceWindowId !== null) {
+            // the window is no longer a session window
+            await Promise.all([
+                browser.sessions.removeWindowValue(sourceWindowId, "sessionID"),
+                browser.windows.update(sourceWindowId, {titlePreface: ""})
+            ]);
+        }
+
+        SessionEvent.send(sourceId, "set-aside");
+    }
+
+    if(tabs.length === 0) {
+        return;
+    }
+
+    let target:ActiveSession = activeSessions.get(targetId);
+    const activate:boolean = target === undefined;
+
+    if(activate) {
+        const [targetBookmark] = await browser.bookmarks.get(targetId);
+        target = new ActiveSession(targetBookmark);
+    }
+
+    if(sourceWindowId !== null && target.getWindowId() === null) {
+        if(sourceFreed) {
+            if(activate) {
+                // only the transferred tabs are left, the window is handed over to the target session
+                await target.setWindow(sourceWindowId);
+            }
+        } else {
+            // the tabs must not stay in the window of the source session
+            const tabIds:number[] = tabs.map(([tabId]) => tabId);
+            const wnd:Window = await browser.windows.create({tabId: tabIds[0]});
+
+            if(tabIds.length > 1) {
+                await browser.tabs.move(tabIds.slice(1), {
+                    windowId: wnd.id,
+                    index: -1
+                });
+            }
+
+            if(activate) {
+                await target.setWindow(wnd.id);
+            }
+        }
+    }
+
+    for(const [tabId, tabBookmarkId] of tabs) {
+        await target.adoptTab(tabId, tabBookmarkId);
+    }
+
+    if(activate) {
+        activeSessions.set(targetId, target);
+        target.start();
+        SessionEvent.send(targetId, "activated");
+    }
+
+    BrowserAction.updateBadge();
+}
+
 /**
  * Sets an active session aside.
  * @param sessionId Bookmark id of the session folder.
@@ -145,6 +235,7 @@ export async function setAside(sessionId:SessionId):Promise<void> {
     }
 
     await session.setTabsOrWindowAside();
+    await Schedules.setUsed(sessionId);
 
     SessionEvent.send(session.bookmarkId, "set-aside");
     BrowserAction.updateBadge();
@@ -166,6 +257,9 @@ export async function removeSession(sessionId:SessionId, keepTabs:boolean = fals
         await setAside(sessionId);
     }
 
+    // keep a copy to make this undoable
+    await Trash.addSession(sessionId);
+
     // remove bookmarks
     await browser.bookmarks.removeTree(sessionId);
 
@@ -179,10 +273,11 @@ export async function removeTabFromSession(tabBookmarkId:string):Promise<void> {
     let session:ActiveSession = activeSessions.get(sessionId);
     
     if(session) {
-        console.error("[TA] Removing a tab from an active session is currently not supported.");
+        await session.removeTab(tabBookmark.id);
         return;
     }
 
+    await Trash.addTabs([tabBookmark.id]);
     await browser.bookmarks.remove(tabBookmark.id);
 
     let tabs:Bookmark[] = await browser.bookmarks.getChildren(sessionId);
@@ -191,7 +286,7 @@ export async function removeTabFromSession(tabBookmarkId:string):Promise<void> {
         removeSession(sessionId, false);
     } else {
         // update views
-        SessionContentUpdate.send(sessionId);
+        SessionContentUpdate.sendChanges(sessionId, {removedTabs: [tabBookmark.id]});
     }
 }
 
@@ -1,9 +1,13 @@
 import * as OptionsManager from "../options/OptionsManager.js";
 import TabData from "./TabData.js";
+import * as Favicons from "./Favicons.js";
 import { Tab, Window, Bookmark, SessionId } from "../util/Types.js";
 import { SessionEvent, SessionContentUpdate } from "../messages/Messages.js";
 import { createTab } from "../util/WebExtAPIHelpers.js";
 import { generateSessionTitle } from "./SessionTitleGenerator.js";
+import * as Trash from "./Trash.js";
+import * as Thumbnails from "./Thumbnails.js";
+import * as RestoreScheduler from "./RestoreScheduler.js";
 
 export async function createSession(
     tabs:Tab[],
@@ -32,10 +36,13 @@ export async function createSession(
         //TODO: is this check necessary?
         if(!data.isPrivileged()) {
             // create bookmark & close tab
-            await Promise.all([
-                browser.bookmarks.create(data.getBookmarkCreateDetails(sessionId)),
-                setAside ? browser.tabs.remove(tab.id) : Promise.resolve()
-            ]);
+            const tabBookmark:Bookmark = await browser.bookmarks.create(data.getBookmarkCreateDetails(sessionId));
+            Favicons.captureFromTab(tab, data);
+
+            if(setAside) {
+                await Thumbnails.capture([[tab.id, tabBookmark.id]]);
+                await browser.tabs.remove(tab.id);
+            }
         }
     }
 
@@ -48,18 +55,18 @@ export async function createSession(
  * Classic restore function (just opens tabs, no active session)
  * @param sessionId
  */
-export async function restore(sessionId:SessionId, keepBookmarks:boolean):Promise<void> {
+export async function restore(sessionId:SessionId, keepBookmarks:boolean, newWindow:boolean = false):Promise<void> {
     // let the browser handle these requests simultaneously
-    let [[tabBookmark], openInNewWindow, lazyLoading] = await Promise.all([
+    let [[tabBookmark], openInNewWindow] = await Promise.all([
         browser.bookmarks.getSubTree(sessionId),
-        OptionsManager.getValue<boolean>("windowedSession"),
-        OptionsManager.getValue<boolean>("lazyLoading")
+        OptionsManager.getValue<boolean>("windowedSession")
     ]);
 
     let tabBookmarks:Bookmark[] = tabBookmark.children;
+    const plan:RestoreScheduler.RestorePlan = await RestoreScheduler.createPlan(tabBookmarks);
     let newTabId:number;
 
-    if(openInNewWindow) {
+    if(openInNewWindow || newWindow) {
         // create window for the tabs
         let wnd:Window = await browser.windows.create();
         newTabId = wnd.tabs[0].id;
@@ -74,13 +81,15 @@ export async function restore(sessionId:SessionId, keepBookmarks:boolean):Promis
     }
 
     // create tabs
-    await Promise.all(
+    const tabs:Tab[] = await Promise.all(
         tabBookmarks.map(bm => {
             let data:TabData = TabData.createFromBookmark(bm);
             let createProperties = data.getTabCreateProperties();
 
-            if(!lazyLoading && createProperties.discarded) {
+            if(plan.loadNow.has(bm.id) && createProperties.discarded) {
                 createProperties.discarded = false;
+                // the title can only be set for discarded tabs
+                createProperties.title = undefined;
             }
 
             if(newTabId !== undefined) {
@@ -96,6 +105,10 @@ export async function restore(sessionId:SessionId, keepBookmarks:boolean):Promis
         browser.tabs.remove(newTabId);
     }
 
+    if(plan.progressive) {
+        RestoreScheduler.loadProgressively(tabs);
+    }
+
     // (optional) remove bookmarks
     if(!keepBookmarks) {
         await browser.bookmarks.removeTree(sessionId);
@@ -104,6 +117,9 @@ export async function restore(sessionId:SessionId, keepBookmarks:boolean):Promis
 }
 
 export async function removeSession(sessionId:SessionId):Promise<void> {
+    // keep a copy to make this undoable
+    await Trash.addSession(sessionId);
+
     // remove bookmarks
     await browser.bookmarks.removeTree(sessionId);
 
@@ -114,6 +130,7 @@ export async function removeSession(sessionId:SessionId):Promise<void> {
 export async function removeTabFromSession(tabBookmark:Bookmark):Promise<void> {
     let sessionId:string = tabBookmark.parentId;
 
+    await Trash.addTabs([tabBookmark.id]);
     await browser.bookmarks.remove(tabBookmark.id);
 
     let tabs:Bookmark[] = await browser.bookmarks.getChildren(sessionId);
@@ -122,6 +139,6 @@ export async function removeTabFromSession(tabBookmark:Bookmark):Promise<void> {
         removeSession(sessionId);
     } else {
         // update views
-        SessionContentUpdate.send(sessionId);
+        SessionContentUpdate.sendChanges(sessionId, {removedTabs: [tabBookmark.id]});
     }
 }
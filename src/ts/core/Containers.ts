@@ -0,0 +1,128 @@
+import { SessionId, Bookmark } from "../util/Types.js";
+import TabData from "./TabData.js";
+import StorageMap from "../util/StorageMap.js";
+
+type ContextualIdentity = browser.contextualIdentities.ContextualIdentity;
+
+/**
+ * Containers (contextual identities) of sessions.
+ * A session can have a default container that is used for new tabs in the session window.
+ * Containers that no longer exist can be replaced by other containers.
+ * Both are stored in the extension storage (not in the bookmarks).
+ */
+let sessionContainers:StorageMap<string> = new StorageMap("sessionContainers");
+let replacements:StorageMap<string> = new StorageMap("containerReplacements");
+
+export const DEFAULT_CONTAINER = "firefox-default";
+// mapping target: create a new container instead of using an existing one
+export const NEW_CONTAINER = "new";
+
+const NEW_CONTAINER_COLORS = ["blue", "turquoise", "green", "yellow", "orange", "red", "pink", "purple"];
+
+/**
+ * Maps missing containers to existing containers, `DEFAULT_CONTAINER` or `NEW_CONTAINER`.
+ */
+export type ContainerMapping = {[missingCookieStoreId:string]: string};
+
+export type MissingContainer = {
+    cookieStoreId:string;
+    numberOfTabs:number;
+};
+
+/**
+ * Removes the containers of removed sessions. Only call this from the background page.
+ */
+export function init():void {
+    sessionContainers.removeWithBookmarks();
+}
+
+/**
+ * @returns All containers or an empty list if containers are disabled
+ */
+export async function getIdentities():Promise<ContextualIdentity[]> {
+    if(!browser.contextualIdentities) {
+        return [];
+    }
+
+    try {
+        return await browser.contextualIdentities.query({});
+    } catch(e) {
+        // containers are disabled
+        return [];
+    }
+}
+
+export async function getIdentity(cookieStoreId:string):Promise<ContextualIdentity|null> {
+    const identities:ContextualIdentity[] = await getIdentities();
+    return identities.find(identity => identity.cookieStoreId === cookieStoreId) || null;
+}
+
+/**
+ * Finds containers that are used by tabs but do not exist anymore.
+ * Containers that already have a replacement are not reported.
+ */
+export async function getMissingContainers(tabBookmarks:Bookmark[]):Promise<MissingContainer[]> {
+    const [identities, replaced] = await Promise.all([getIdentities(), replacements.getAll()]);
+    const existing:Set<string> = new Set(identities.map(identity => identity.cookieStoreId));
+    let missing:Map<string, number> = new Map();
+
+    tabBookmarks.forEach(tabBookmark => {
+        const cookieStoreId:string|undefined = TabData.createFromBookmark(tabBookmark).cookieStoreId;
+
+        if(cookieStoreId && cookieStoreId !== DEFAULT_CONTAINER
+            && !existing.has(cookieStoreId) && !replaced[cookieStoreId]) {
+            missing.set(cookieStoreId, (missing.get(cookieStoreId) || 0) + 1);
+        }
+    });
+
+    return Array.from(missing).map(([cookieStoreId, n]) => ({
+        cookieStoreId: cookieStoreId,
+        numberOfTabs: n
+    }));
+}
+
+/**
+ * Creates a container (used to replace a missing container).
+ * @param index Used to pick a color
+ * @returns The id of the new container
+ */
+export async function createContainer(name:string, index:number = 0):Promise<string> {
+    const identity:ContextualIdentity = await browser.contextualIdentities.create({
+        name: name,
+        color: NEW_CONTAINER_COLORS[index % NEW_CONTAINER_COLORS.length],
+        icon: "fingerprint"
+    });
+
+    return identity.cookieStoreId;
+}
+
+/**
+ * @returns The default container of a session or `undefined` if the session does not have one
+ */
+export async function getSessionContainer(sessionId:SessionId):Promise<string|undefined> {
+    return sessionContainers.get(sessionId);
+}
+
+/**
+ * @param cookieStoreId The default container for new tabs, `undefined` to remove it
+ */
+export async function setSessionContainer(sessionId:SessionId, cookieStoreId:string|undefined):Promise<void> {
+    await sessionContainers.set(
+        sessionId,
+        cookieStoreId && cookieStoreId !== DEFAULT_CONTAINER ? cookieStoreId : undefined
+    );
+}
+
+/**
+ * @returns The container that replaces a removed container or `undefined` if there is no replacement
+ */
+export async function getReplacement(cookieStoreId:string):Promise<string|undefined> {
+    return replacements.get(cookieStoreId);
+}
+
+/**
+ * Tabs of the missing container will be opened in the replacement container from now on.
+ */
+export async function setReplacement(missingCookieStoreId:string, cookieStoreId:string):Promise<void> {
+    await replacements.set(missingCookieStoreId, cookieStoreId);
+}
@@ -0,0 +1,228 @@
+import * as OptionsManager from "../options/OptionsManager.js";
+import { Bookmark, SessionId, Tab } from "../util/Types.js";
+import { SessionContentUpdate } from "../messages/Messages.js";
+import TabData from "./TabData.js";
+import * as SessionGroups from "./SessionGroups.js";
+import * as ActiveSessionManager from "./ActiveSessionManager.js";
+import * as ClassicSessionManager from "./ClassicSessionManager.js";
+import * as Trash from "./Trash.js";
+
+export interface NormalizationOptions {
+    ignoreFragment:boolean;
+    ignoreTrackingParams:boolean;
+    ignoreTrailingSlash:boolean;
+}
+
+export interface DuplicateOccurrence {
+    sessionId:SessionId;
+    sessionTitle:string;
+    tabBookmarkId:string;
+    title:string;
+    url:string;
+}
+
+export interface DuplicateEntry {
+    url:string; // normalized URL
+    occurrences:DuplicateOccurrence[]; // the first occurrence is kept when deduplicating
+}
+
+// query parameters that are only used to track users
+const trackingParam = /^(utm_\w+|fbclid|gclid|dclid|msclkid|yclid|igshid|mc_cid|mc_eid|_ga|_hsenc|_hsmi|ref_src)$/i;
+
+export async function getNormalizationOptions():Promise<NormalizationOptions> {
+    const [ignoreFragment, ignoreTrackingParams, ignoreTrailingSlash] = await Promise.all([
+        OptionsManager.getValue<boolean>("duplicatesIgnoreFragment"),
+        OptionsManager.getValue<boolean>("duplicatesIgnoreTrackingParams"),
+        OptionsManager.getValue<boolean>("duplicatesIgnoreTrailingSlash")
+    ]);
+
+    return {
+        ignoreFragment: ignoreFragment,
+        ignoreTrackingParams: ignoreTrackingParams,
+        ignoreTrailingSlash: ignoreTrailingSlash
+    };
+}
+
+/**
+ * Normalizes a URL such that URLs of the same page are equal.
+ */
+export function normalizeUrl(url:string, options:NormalizationOptions):string {
+    let parsed:URL;
+
+    try {
+        parsed = new URL(url);
+    } catch(e) {
+        return url;
+    }
+
+    if(options.ignoreFragment) {
+        parsed.hash = "";
+    }
+
+    if(options.ignoreTrackingParams) {
+        Array.from(parsed.searchParams.keys())
+            .filter(key => trackingParam.test(key))
+            .forEach(key => parsed.searchParams.delete(key));
+    }
+
+    if(options.ignoreTrailingSlash && parsed.pathname.length > 1) {
+        parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+    }
+
+    return parsed.href;
+}
+
+async function getSessions():Promise<Bookmark[]> {
+    const rootFolderId:string = await OptionsManager.getValue<string>("rootFolder");
+    return SessionGroups.getSessions(await SessionGroups.getSessionTree(rootFolderId));
+}
+
+/**
+ * Finds URLs that appear more than once (within a session or across sessions).
+ */
+export async function findDuplicates():Promise<DuplicateEntry[]> {
+    const [sessions, options] = await Promise.all([getSessions(), getNormalizationOptions()]);
+    let occurrences:Map<string, DuplicateOccurrence[]> = new Map();
+
+    sessions.forEach(session => (session.children || []).filter(bm => bm.url).forEach(tabBookmark => {
+        const data:TabData = TabData.createFromBookmark(tabBookmark);
+        const url:string = normalizeUrl(data.url, options);
+
+        let list:DuplicateOccurrence[] = occurrences.get(url) || [];
+        list.push({
+            sessionId: session.id,
+            sessionTitle: session.title,
+            tabBookmarkId: tabBookmark.id,
+            title: data.title,
+            url: data.url
+        });
+        occurrences.set(url, list);
+    }));
+
+    let duplicates:DuplicateEntry[] = [];
+    occurrences.forEach((list, url) => {
+        if(list.length > 1) {
+            duplicates.push({url: url, occurrences: list});
+        }
+    });
+
+    return duplicates;
+}
+
+/**
+ * Removes tabs that appear more than once within a session, the first occurrence is kept.
+ * @returns The number of removed tabs.
+ */
+export async function removeDuplicatesInSession(sessionId:SessionId):Promise<number> {
+    const [tabBookmarks, options] = await Promise.all([
+        browser.bookmarks.getChildren(sessionId),
+        getNormalizationOptions()
+    ]);
+
+    let seen:Set<string> = new Set();
+    let duplicates:string[] = [];
+
+    tabBookmarks.filter(bm => bm.url).forEach(tabBookmark => {
+        const url:string = normalizeUrl(TabData.createFromBookmark(tabBookmark).url, options);
+
+        if(seen.has(url)) {
+            duplicates.push(tabBookmark.id);
+        } else {
+            seen.add(url);
+        }
+    });
+
+    await removeTabs(sessionId, duplicates);
+
+    return duplicates.length;
+}
+
+/**
+ * Removes duplicates across all sessions, only the first occurrence of every URL is kept.
+ * @param url (optional) Normalized URL, if set only duplicates of this URL are removed
+ * @returns The number of removed tabs.
+ */
+export async function removeDuplicates(url?:string):Promise<number> {
+    let duplicates:DuplicateEntry[] = await findDuplicates();
+
+    if(url !== undefined) {
+        duplicates = duplicates.filter(entry => entry.url === url);
+    }
+
+    // group by session to remove tabs of a session at once
+    let tabsToRemove:Map<SessionId, string[]> = new Map();
+    duplicates.forEach(entry => entry.occurrences.slice(1).forEach(occurrence => {
+        let list:string[] = tabsToRemove.get(occurrence.sessionId) || [];
+        list.push(occurrence.tabBookmarkId);
+        tabsToRemove.set(occurrence.sessionId, list);
+    }));
+
+    let n:number = 0;
+    for(const [sessionId, tabBookmarkIds] of tabsToRemove) {
+        await removeTabs(sessionId, tabBookmarkIds);
+        n += tabBookmarkIds.length;
+    }
+
+    return n;
+}
+
+async function removeTabs(sessionId:SessionId, tabBookmarkIds:string[]):Promise<void> {
+    if(tabBookmarkIds.length === 0) {
+        return;
+    }
+
+    const activeSession = ActiveSessionManager.getActiveSession(sessionId);
+
+    if(activeSession) {
+        for(const tabBookmarkId of tabBookmarkIds) {
+            await activeSession.removeTab(tabBookmarkId);
+        }
+
+        return;
+    }
+
+    // keep a copy to make this undoable
+    await Trash.addTabs(tabBookmarkIds);
+    await Promise.all(tabBookmarkIds.map(id => browser.bookmarks.remove(id)));
+
+    const remaining:Bookmark[] = await browser.bookmarks.getChildren(sessionId);
+
+    if(remaining.length === 0) {
+        await ClassicSessionManager.removeSession(sessionId);
+    } else {
+        SessionContentUpdate.sendChanges(sessionId, {removedTabs: tabBookmarkIds});
+    }
+}
+
+/**
+ * Filters tabs that would be duplicates in the given session (if the duplicate check is enabled).
+ * @param tabs Tabs that should be added to the session
+ * @param sessionId (optional) Target session, if undefined only duplicates among `tabs` are filtered
+ * @returns The tabs that should be added
+ */
+export async function filterNewTabs(tabs:Tab[], sessionId?:SessionId):Promise<Tab[]> {
+    if(!(await OptionsManager.getValue<boolean>("duplicateCheck"))) {
+        return tabs;
+    }
+
+    const options:NormalizationOptions = await getNormalizationOptions();
+    let seen:Set<string> = new Set();
+
+    if(sessionId) {
+        const tabBookmarks:Bookmark[] = await browser.bookmarks.getChildren(sessionId);
+        tabBookmarks.filter(bm => bm.url).forEach(
+            bm => seen.add(normalizeUrl(TabData.createFromBookmark(bm).url, options))
+        );
+    }
+
+    return tabs.filter(tab => {
+        const url:string = normalizeUrl(TabData.createFromTab(tab).url, options);
+
+        if(seen.has(url)) {
+            return false;
+        }
+
+        seen.add(url);
+        return true;
+    });
+}
@@ -0,0 +1,172 @@
+import TabData from "./TabData.js";
+import { Bookmark, SessionId } from "../util/Types.js";
+import { getSessionBookmarks } from "./SessionManager.js";
+import * as Tags from "./Tags.js";
+import * as Notes from "./Notes.js";
+
+export type ExportFormat = "json" | "html" | "text";
+
+export const EXPORT_FORMAT_ID = "tabs-aside-sessions";
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportedTab {
+    title:string;
+    url:string;
+    pinned:boolean;
+    readerMode:boolean;
+    viewSource:boolean;
+    cookieStoreId?:string;
+    note?:string;
+}
+
+export interface ExportedSession {
+    title:string;
+    created?:number;
+    tags?:string[];
+    note?:string;
+    tabs:ExportedTab[];
+}
+
+export interface ExportData {
+    format:string;
+    version:number;
+    created:string;
+    sessions:ExportedSession[];
+}
+
+/**
+ * Serializes sessions into the given format.
+ * @param format Output format
+ * @param sessionIds (optional) Sessions to export, defaults to all sessions
+ */
+export async function exportSessions(format:ExportFormat, sessionIds?:SessionId[]):Promise<string> {
+    const sessions:Bookmark[] = await getSessions(sessionIds);
+
+    if(format === "json") {
+        const [tags, notes] = await Promise.all([Tags.getAll(), Notes.getAll()]);
+        return JSON.stringify(toJSON(sessions, tags, notes), null, 2);
+    } else if(format === "html") {
+        return toHTML(sessions);
+    } else if(format === "text") {
+        return toText(sessions);
+    }
+
+    throw new Error("Unknown export format: " + format);
+}
+
+/**
+ * Returns the session bookmarks including their children.
+ * @param sessionIds (optional) Sessions to include, defaults to all sessions
+ */
+export async function getSessions(sessionIds?:SessionId[]):Promise<Bookmark[]> {
+    let sessions:Bookmark[] = await getSessionBookmarks();
+
+    if(sessionIds) {
+        sessions = sessions.filter(session => sessionIds.includes(session.id));
+    }
+
+    // load tab bookmarks
+    return Promise.all(sessions.map(
+        async session => (await browser.bookmarks.getSubTree(session.id))[0]
+    ));
+}
+
+function getTabBookmarks(session:Bookmark):Bookmark[] {
+    return (session.children || []).filter(bm => bm.url);
+}
+
+function toJSON(sessions:Bookmark[], tags:Map<SessionId, string[]>, notes:Map<string, string>):ExportData {
+    return {
+        format: EXPORT_FORMAT_ID,
+        version: EXPORT_FORMAT_VERSION,
+        created: (new Date()).toISOString(),
+        sessions: sessions.map(session => toExportedSession(session, tags.get(session.id), notes))
+    };
+}
+
+/**
+ * Converts a session bookmark (including its children) into the JSON export format.
+ * @param session Session bookmark including its children
+ * @param tags (optional) Tags of this session
+ * @param notes (optional) Notes of sessions and tabs (bookmark id -> note)
+ */
+export function toExportedSession(session:Bookmark, tags?:string[], notes?:Map<string, string>):ExportedSession {
+    return {
+        title: session.title,
+        created: session.dateAdded,
+        tags: tags && tags.length > 0 ? tags : undefined,
+        note: notes ? notes.get(session.id) : undefined,
+        tabs: getTabBookmarks(session).map(tabBookmark => {
+            const data:TabData = TabData.createFromBookmark(tabBookmark);
+
+            let tab:ExportedTab = {
+                title: data.title,
+                url: tabBookmark.url,
+                pinned: data.pinned,
+                readerMode: data.isInReaderMode,
+                viewSource: data.viewSource
+            };
+
+            if(data.cookieStoreId) {
+                tab.cookieStoreId = data.cookieStoreId;
+            }
+
+            if(notes && notes.has(tabBookmark.id)) {
+                tab.note = notes.get(tabBookmark.id);
+            }
+
+            return tab;
+        })
+    };
+}
+
+function escapeHTML(str:string):string {
+    return str.replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * Netscape bookmark file format (supported by all major browsers).
+ * Tab titles keep the encoded TabData flags so they survive a round trip.
+ */
+function toHTML(sessions:Bookmark[]):string {
+    const toSeconds = (time:number) => Math.floor((time || Date.now()) / 1000);
+
+    let lines:string[] = [
+        "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+        "<!-- This is an automatically generated file. It will be read and overwritten. DO NOT EDIT! -->",
+        `<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">`,
+        "<TITLE>Tabs Aside</TITLE>",
+        "<H1>Tabs Aside</H1>",
+        "<DL><p>"
+    ];
+
+    sessions.forEach(session => {
+        lines.push(`    <DT><H3 ADD_DATE="${toSeconds(session.dateAdded)}">${escapeHTML(session.title)}</H3>`);
+        lines.push("    <DL><p>");
+
+        getTabBookmarks(session).forEach(tabBookmark => {
+            lines.push(
+                `        <DT><A HREF="${escapeHTML(tabBookmark.url)}" ADD_DATE="${toSeconds(tabBookmark.dateAdded)}">`
+                + escapeHTML(tabBookmark.title) + "</A>"
+            );
+        });
+
+        lines.push("    </DL><p>");
+    });
+
+    lines.push("</DL><p>");
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Newline-separated URLs, sessions are separated by an empty line.
+ */
+function toText(sessions:Bookmark[]):string {
+    return sessions.map(
+        session => getTabBookmarks(session).map(tabBookmark => tabBookmark.url).join("\n")
+    ).join("\n\n") + "\n";
+}
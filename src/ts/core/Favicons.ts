@@ -0,0 +1,152 @@
+import * as OptionsManager from "../options/OptionsManager.js";
+import TabData from "./TabData.js";
+import KeyValueStore from "../util/KeyValueStore.js";
+import * as PageAccess from "../util/PageAccess.js";
+import { Tab } from "../util/Types.js";
+
+type Bookmark = browser.bookmarks.BookmarkTreeNode;
+
+/**
+ * Local favicon store. Favicons are stored in IndexedDB as data URLs, keyed by the origin of the page.
+ * Icons are captured whenever a browser tab is saved as a bookmark,
+ * so the sidebar never has to request favicons from the network.
+ */
+
+// larger icons are not stored
+const MAX_ICON_SIZE = 64 * 1024;
+
+const genericIconUrl = browser.runtime.getURL("img/sidebar/page-16.svg");
+
+let store:KeyValueStore<string> = new KeyValueStore("favicons");
+
+// origins that are stored or currently being captured (avoids database lookups for every tab update)
+let knownOrigins:Set<string> = new Set();
+
+export function init():void {
+    browser.bookmarks.onRemoved.addListener((id, removeInfo) => {
+        // a session or group was removed
+        if(!removeInfo.node.url) {
+            cleanUp();
+        }
+    });
+
+    cleanUp();
+}
+
+function getOrigin(url:string):string|null {
+    try {
+        const origin:string = (new URL(url)).origin;
+        return origin === "null" ? null : origin;
+    } catch(e) {
+        return null;
+    }
+}
+
+async function toDataURL(iconUrl:string):Promise<string|null> {
+    if(iconUrl.startsWith("data:")) {
+        return iconUrl.length > MAX_ICON_SIZE ? null : iconUrl;
+    } else if(!(await PageAccess.isGranted())) {
+        // other icons can only be fetched with access to all pages
+        return null;
+    }
+
+    const response:Response = await fetch(iconUrl);
+    const blob:Blob = await response.blob();
+
+    if(!response.ok || !blob.type.startsWith("image/") || blob.size > MAX_ICON_SIZE) {
+        return null;
+    }
+
+    return new Promise((resolve, reject) => {
+        const reader:FileReader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Stores the favicon of a page if there is none for its origin yet.
+ * @param url The (unprefixed) URL of the page
+ * @param iconUrl The favicon URL reported by the browser (`tab.favIconUrl`)
+ */
+export async function capture(url:string, iconUrl:string|undefined):Promise<void> {
+    const origin:string|null = getOrigin(url);
+
+    if(!origin || !iconUrl || knownOrigins.has(origin)) {
+        return;
+    }
+
+    knownOrigins.add(origin);
+
+    try {
+        if(await store.get(origin)) {
+            return;
+        }
+
+        const icon:string|null = await toDataURL(iconUrl);
+
+        if(icon) {
+            await store.set(origin, icon);
+        } else {
+            knownOrigins.delete(origin);
+        }
+    } catch(e) {
+        knownOrigins.delete(origin);
+        console.log("[TA] Could not store favicon of " + origin, e);
+    }
+}
+
+/**
+ * Stores the favicon of a tab that is saved as a bookmark.
+ * Favicons of private tabs are not stored.
+ * @param data Tab data of the tab (see `TabData.createFromTab`)
+ */
+export function captureFromTab(tab:Tab, data:TabData):void {
+    if(!tab.incognito) {
+        capture(data.url, tab.favIconUrl);
+    }
+}
+
+/**
+ * @returns The stored favicon (data URL) or a generic icon if there is none.
+ */
+export async function getURL(data:TabData):Promise<string> {
+    const origin:string|null = getOrigin(data.url);
+    const icon:string|undefined = origin ? await store.get(origin) : undefined;
+
+    return icon || genericIconUrl;
+}
+
+function collectOrigins(node:Bookmark, origins:Set<string>):void {
+    if(node.url) {
+        const origin:string|null = getOrigin(TabData.createFromBookmark(node).url);
+
+        if(origin) {
+            origins.add(origin);
+        }
+    } else if(node.children) {
+        node.children.forEach(child => collectOrigins(child, origins));
+    }
+}
+
+/**
+ * Removes favicons of origins that are not used by any session.
+ */
+export async function cleanUp():Promise<void> {
+    const rootFolderId:string|null = await OptionsManager.getValue<string>("rootFolder");
+
+    if(!rootFolderId) {
+        return;
+    }
+
+    let used:Set<string> = new Set();
+    collectOrigins((await browser.bookmarks.getSubTree(rootFolderId))[0], used);
+
+    const unused:string[] = (await store.getKeys()).filter(origin => !used.has(origin));
+
+    if(unused.length > 0) {
+        unused.forEach(origin => knownOrigins.delete(origin));
+        await store.remove(unused);
+    }
+}
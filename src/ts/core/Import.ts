@@ -0,0 +1,61 @@
+import * as OptionsManager from "../options/OptionsManager.js";
+import TabData from "./TabData.js";
+import { ExportedSession } from "./Export.js";
+import { toTabData } from "./ImportParser.js";
+import * as Tags from "./Tags.js";
+import * as Notes from "./Notes.js";
+import { Bookmark, SessionId } from "../util/Types.js";
+import { SessionEvent } from "../messages/Messages.js";
+
+/**
+ * Creates sessions from imported data. Tabs with privileged URLs are skipped.
+ * The sessions will be created on top, in the given order.
+ * @returns The bookmark ids of the created sessions.
+ */
+export async function importSessions(sessions:ExportedSession[]):Promise<SessionId[]> {
+    const rootFolderId:string = await OptionsManager.getValue<string>("rootFolder");
+    let sessionIds:SessionId[] = [];
+
+    // create the last session first so the first session ends up on top
+    for(const session of sessions.slice().reverse()) {
+        // keep the notes next to their tabs
+        const tabs:[TabData, string|undefined][] = session.tabs
+            .map((tab, i) => [toTabData(tab, i), tab.note] as [TabData, string|undefined])
+            .filter(([data]) => !data.isPrivileged());
+
+        if(tabs.length === 0) {
+            continue;
+        }
+
+        const sessionBookmark:Bookmark = await browser.bookmarks.create({
+            title: session.title,
+            type: "folder",
+            parentId: rootFolderId,
+            index: 0
+        });
+
+        for(let i=0; i<tabs.length; i++) {
+            const [data, note] = tabs[i];
+            let details = data.getBookmarkCreateDetails(sessionBookmark.id);
+            details.index = i;
+            const tabBookmark:Bookmark = await browser.bookmarks.create(details);
+
+            if(note) {
+                await Notes.setNote(tabBookmark.id, note);
+            }
+        }
+
+        if(session.tags) {
+            await Tags.setTags(sessionBookmark.id, session.tags);
+        }
+
+        if(session.note) {
+            await Notes.setNote(sessionBookmark.id, session.note);
+        }
+
+        await SessionEvent.send(sessionBookmark.id, "created");
+        sessionIds.unshift(sessionBookmark.id);
+    }
+
+    return sessionIds;
+}
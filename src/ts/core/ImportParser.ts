@@ -0,0 +1,199 @@
+import TabData from "./TabData.js";
+import { ExportData, ExportedSession, ExportedTab, EXPORT_FORMAT_ID, EXPORT_FORMAT_VERSION } from "./Export.js";
+import { Bookmark } from "../util/Types.js";
+
+export type ImportFormat = "json" | "html" | "onetab" | "text";
+
+export interface ParseResult {
+    format:ImportFormat;
+    sessions:ExportedSession[];
+}
+
+const netscapeDoctype = /<!DOCTYPE\s+NETSCAPE-Bookmark-file-1>/i;
+const oneTabLine = /^([a-z][-+.a-z0-9]*:\S+) \| (.*)$/i;
+
+/**
+ * Parses the content of an imported file into sessions.
+ * Supported formats: the extension's own JSON format, Netscape bookmark HTML,
+ * OneTab's "url | title" export and plain URL lists.
+ * @param content File content
+ * @param defaultTitle Title for sessions if the format does not contain any
+ */
+export function parse(content:string, defaultTitle:string):ParseResult {
+    const trimmed = content.trim();
+
+    if(trimmed.startsWith("{")) {
+        return { format: "json", sessions: parseJSON(trimmed) };
+    } else if(netscapeDoctype.test(trimmed) || /^<(!DOCTYPE|html|dl)/i.test(trimmed)) {
+        return { format: "html", sessions: parseHTML(trimmed, defaultTitle) };
+    }
+
+    const lines:string[] = trimmed.split(/\r?\n/).map(line => line.trim());
+    const nonEmpty:string[] = lines.filter(line => line !== "");
+
+    if(nonEmpty.length > 0 && nonEmpty.filter(line => oneTabLine.test(line)).length > nonEmpty.length / 2) {
+        return { format: "onetab", sessions: parseLines(lines, defaultTitle, true) };
+    }
+
+    return { format: "text", sessions: parseLines(lines, defaultTitle, false) };
+}
+
+/**
+ * Checks whether a tab can be restored later (no privileged URLs).
+ */
+export function isImportable(tab:ExportedTab):boolean {
+    return !toTabData(tab, 0).isPrivileged();
+}
+
+export function toTabData(tab:ExportedTab, index:number):TabData {
+    return TabData.createFromDetails({
+        title: tab.title,
+        url: tab.url,
+        pinned: tab.pinned,
+        isInReaderMode: tab.readerMode,
+        viewSource: tab.viewSource,
+        cookieStoreId: tab.cookieStoreId,
+        index: index
+    });
+}
+
+function isValidURL(url:string):boolean {
+    try {
+        new URL(url);
+        return true;
+    } catch(e) {
+        return false;
+    }
+}
+
+/**
+ * Creates a tab from a URL and a title that might contain encoded TabData flags.
+ */
+function createTab(url:string, title:string):ExportedTab|null {
+    if(!isValidURL(url)) {
+        return null;
+    }
+
+    const data:TabData = TabData.createFromBookmark({ url: url, title: title || "" } as Bookmark);
+
+    let tab:ExportedTab = {
+        title: data.title,
+        url: url,
+        pinned: data.pinned,
+        readerMode: data.isInReaderMode,
+        viewSource: data.viewSource
+    };
+
+    if(data.cookieStoreId) {
+        tab.cookieStoreId = data.cookieStoreId;
+    }
+
+    return tab;
+}
+
+function parseJSON(content:string):ExportedSession[] {
+    const data:ExportData = JSON.parse(content);
+
+    if(data.format !== EXPORT_FORMAT_ID || !(data.sessions instanceof Array)) {
+        throw new Error("Unknown JSON format.");
+    } else if(data.version > EXPORT_FORMAT_VERSION) {
+        throw new Error(`Unsupported version ${data.version}, please update Tabs Aside.`);
+    }
+
+    return data.sessions.map(session => ({
+        title: session.title + "",
+        tags: (session.tags instanceof Array) ? session.tags.map(tag => tag + "") : undefined,
+        note: session.note ? session.note + "" : undefined,
+        tabs: (session.tabs || [])
+            .filter(tab => tab && isValidURL(tab.url))
+            .map(tab => {
+                let t:ExportedTab = {
+                    title: (tab.title || "") + "",
+                    url: tab.url,
+                    pinned: tab.pinned === true,
+                    readerMode: tab.readerMode === true,
+                    viewSource: tab.viewSource === true
+                };
+
+                if(tab.cookieStoreId) {
+                    t.cookieStoreId = tab.cookieStoreId + "";
+                }
+
+                if(tab.note) {
+                    t.note = tab.note + "";
+                }
+
+                return t;
+            })
+    })).filter(session => session.tabs.length > 0);
+}
+
+function parseHTML(content:string, defaultTitle:string):ExportedSession[] {
+    const doc:Document = (new DOMParser()).parseFromString(content, "text/html");
+
+    // each bookmark folder (<DL>) becomes a session, nested folders are flattened
+    let sessions:Map<Element, ExportedSession> = new Map();
+
+    doc.querySelectorAll("a[href]").forEach(a => {
+        const tab = createTab(a.getAttribute("href"), a.textContent.trim());
+
+        if(tab === null) {
+            return;
+        }
+
+        const folder:Element = a.closest("dl") || doc.body;
+        let session:ExportedSession = sessions.get(folder);
+
+        if(!session) {
+            const heading = folder.previousElementSibling;
+            const title = (heading && heading.tagName === "H3") ?
+                heading.textContent.trim() : defaultTitle;
+
+            session = { title: title || defaultTitle, tabs: [] };
+            sessions.set(folder, session);
+        }
+
+        session.tabs.push(tab);
+    });
+
+    return Array.from(sessions.values());
+}
+
+/**
+ * Parses line based formats. Empty lines separate sessions.
+ * @param oneTab Whether lines have the format "url | title"
+ */
+function parseLines(lines:string[], defaultTitle:string, oneTab:boolean):ExportedSession[] {
+    let sessions:ExportedSession[] = [];
+    let current:ExportedSession = null;
+
+    lines.forEach(line => {
+        if(line === "") {
+            current = null;
+            return;
+        }
+
+        let tab:ExportedTab|null;
+
+        if(oneTab) {
+            const matches = line.match(oneTabLine);
+            tab = matches ? createTab(matches[1], matches[2]) : createTab(line, "");
+        } else {
+            tab = createTab(line, "");
+        }
+
+        if(tab === null) {
+            return;
+        }
+
+        if(current === null) {
+            const n = sessions.length + 1;
+            current = { title: n > 1 ? `${defaultTitle} (${n})` : defaultTitle, tabs: [] };
+            sessions.push(current);
+        }
+
+        current.tabs.push(tab);
+    });
+
+    return sessions;
+}
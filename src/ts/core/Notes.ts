@@ -0,0 +1,35 @@
+import StorageMap from "../util/StorageMap.js";
+
+/**
+ * Notes of sessions and tabs are stored in the extension storage (not in the bookmarks)
+ * as a map from bookmark ids (session or tab) to free text.
+ */
+let notes:StorageMap<string> = new StorageMap("notes");
+
+/**
+ * Removes notes of removed sessions and tabs. Only call this from the background page.
+ */
+export function init():void {
+    notes.removeWithBookmarks();
+}
+
+/**
+ * @param bookmarkId Bookmark id of a session or tab
+ * @returns The note or an empty string if there is none
+ */
+export async function getNote(bookmarkId:string):Promise<string> {
+    return (await notes.get(bookmarkId)) || "";
+}
+
+export async function getAll():Promise<Map<string, string>> {
+    const noteMap = await notes.getAll();
+    return new Map(Object.keys(noteMap).map(id => [id, noteMap[id]] as [string, string]));
+}
+
+/**
+ * Sets the note of a session or tab, empty notes are removed.
+ */
+export async function setNote(bookmarkId:string, note:string):Promise<void> {
+    note = note.trim();
+    await notes.set(bookmarkId, note !== "" ? note : undefined);
+}
@@ -0,0 +1,103 @@
+import { SessionId, Tab } from "../util/Types.js";
+import StorageMap from "../util/StorageMap.js";
+
+/**
+ * Keeps track of the entries of the browser's "recently closed" list that were created
+ * when a session was set aside. Restoring these entries (instead of creating new tabs)
+ * preserves the tab history, scroll positions and form data.
+ */
+export type ClosedEntry = {
+    window?:string; // browser session id of the closed window
+    tabs?:string[]; // browser session ids of closed tabs
+};
+
+let entries:StorageMap<ClosedEntry> = new StorageMap("recentlyClosed");
+
+/**
+ * Forgets the entries of removed sessions. Only call this from the background page.
+ */
+export function init():void {
+    entries.removeWithBookmarks();
+}
+
+/**
+ * Remembers the most recently closed window or tabs. Call this right after the tabs of a session have been closed.
+ * @param sessionId Bookmark id of the session
+ * @param numberOfTabs The number of tabs that have been closed (0 if the window has been closed)
+ */
+export async function remember(sessionId:SessionId, numberOfTabs:number):Promise<void> {
+    const closed = await browser.sessions.getRecentlyClosed({maxResults: Math.max(1, numberOfTabs)});
+    let entry:ClosedEntry = {};
+
+    if(numberOfTabs === 0) {
+        if(closed.length > 0 && closed[0].window) {
+            entry.window = closed[0].window.sessionId;
+        }
+    } else {
+        entry.tabs = closed.filter(s => s.tab).map(s => s.tab.sessionId);
+    }
+
+    await entries.set(sessionId, entry.window || (entry.tabs && entry.tabs.length > 0) ? entry : undefined);
+}
+
+export interface RestoredTabs {
+    tabs:Tab[];
+    windowId?:number; // set if the window of the session has been restored
+}
+
+/**
+ * Restores the closed window or tabs of a session (if they are still in the "recently closed" list).
+ * Restored tabs that do not belong to the session (according to their `sessionID` tab value) are closed again.
+ * @returns The restored tabs of the session, `null` if nothing could be restored
+ */
+export async function restore(sessionId:SessionId):Promise<RestoredTabs|null> {
+    const entry:ClosedEntry|undefined = await entries.modify(map => {
+        const e:ClosedEntry|undefined = map[sessionId];
+        delete map[sessionId];
+        return e;
+    });
+
+    if(!entry) {
+        return null;
+    }
+
+    const available:Set<string> = new Set((await browser.sessions.getRecentlyClosed()).map(
+        s => s.window ? s.window.sessionId : s.tab.sessionId
+    ));
+
+    let tabs:Tab[] = [];
+    let windowId:number|undefined = undefined;
+
+    if(entry.window && available.has(entry.window)) {
+        const restored = await browser.sessions.restore(entry.window);
+
+        if(restored.window) {
+            tabs = restored.window.tabs;
+            windowId = restored.window.id;
+        }
+    } else if(entry.tabs) {
+        // restore in the original order (the list is ordered by closing time, newest first)
+        for(const tabSessionId of entry.tabs.filter(id => available.has(id)).reverse()) {
+            const restored = await browser.sessions.restore(tabSessionId);
+
+            if(restored.tab) {
+                tabs.push(restored.tab);
+            }
+        }
+    }
+
+    // verify the restored tabs
+    const values:string[] = await Promise.all(
+        tabs.map(tab => browser.sessions.getTabValue(tab.id, "sessionID") as Promise<string>)
+    );
+    const foreignTabs:Tab[] = tabs.filter((tab, i) => values[i] !== sessionId);
+
+    if(foreignTabs.length > 0) {
+        console.log(`[TA] Restored ${foreignTabs.length} tab(s) that do not belong to session ${sessionId}.`);
+        await browser.tabs.remove(foreignTabs.map(tab => tab.id));
+    }
+
+    tabs = tabs.filter(tab => !foreignTabs.includes(tab));
+
+    return tabs.length > 0 ? {tabs: tabs, windowId: windowId} : null;
+}
@@ -0,0 +1,126 @@
+import * as OptionsManager from "../options/OptionsManager.js";
+import { Bookmark, Tab } from "../util/Types.js";
+import { wait } from "../util/PromiseUtils.js";
+import * as TabState from "./TabState.js";
+import TabData from "./TabData.js";
+
+/**
+ * Decides which tabs of a restored session are loaded immediately (see the lazy loading options).
+ * Depending on the strategy the remaining tabs stay discarded until they are activated
+ * or they are loaded one after another in the background.
+ */
+
+type Strategy = "discard-all" | "load-first" | "load-progressively";
+
+// number of tabs that are loaded at the same time (progressive loading)
+const MAX_CONCURRENT_LOADS = 2;
+// pause after each load to give the browser some time (e.g. to free memory)
+const LOAD_PAUSE = 1000;
+// slow pages do not block the queue for longer than this
+const LOAD_TIMEOUT = 20000;
+
+const READER_PREFIX = "about:reader?url=";
+
+export interface RestorePlan {
+    // bookmark ids of the tabs that should be loaded immediately
+    readonly loadNow:Set<string>;
+    // load the other tabs in the background afterwards
+    readonly progressive:boolean;
+}
+
+/**
+ * Pinned tabs and the tab that will be activated are always loaded immediately.
+ * @param tabBookmarks The tabs that will be restored (in tab order)
+ * @param activeTabBookmarkId (optional) Bookmark id of the tab that will be activated
+ */
+export async function createPlan(tabBookmarks:Bookmark[], activeTabBookmarkId?:string):Promise<RestorePlan> {
+    const [lazyLoading, strategy, budget] = await Promise.all([
+        OptionsManager.getValue<boolean>("lazyLoading"),
+        OptionsManager.getValue<Strategy>("lazyLoadingStrategy"),
+        OptionsManager.getValue<string>("lazyLoadingBudget")
+    ]);
+
+    if(!lazyLoading) {
+        return {
+            loadNow: new Set(tabBookmarks.map(tabBookmark => tabBookmark.id)),
+            progressive: false
+        };
+    }
+
+    // pinned tabs are never discarded (see TabData.getTabCreateProperties) and do not count towards the budget
+    const n:number = strategy === "discard-all" ? 0 : parseInt(budget);
+    const unpinned:Bookmark[] = tabBookmarks.filter(tabBookmark => !TabData.createFromBookmark(tabBookmark).pinned);
+
+    let loadNow:Set<string> = new Set(unpinned.slice(0, n).map(tabBookmark => tabBookmark.id));
+
+    tabBookmarks.forEach(tabBookmark => {
+        if(tabBookmark.id === activeTabBookmarkId || !unpinned.includes(tabBookmark)) {
+            loadNow.add(tabBookmark.id);
+        }
+    });
+
+    return {
+        loadNow: loadNow,
+        progressive: strategy === "load-progressively"
+    };
+}
+
+/**
+ * Loads a discarded tab, resolves once it has been loaded (or after `LOAD_TIMEOUT`).
+ * Tabs that have been activated or closed in the meantime are skipped.
+ */
+async function loadTab(tabId:number):Promise<void> {
+    try {
+        const tab:Tab = await browser.tabs.get(tabId);
+
+        if(!tab.discarded) {
+            return;
+        }
+
+        const loaded:Promise<void> = TabState.waitForLoad(tabId, false, LOAD_TIMEOUT);
+        // avoid an unhandled rejection if loading fails
+        loaded.catch(() => {});
+
+        if(tab.url.startsWith(READER_PREFIX)) {
+            // reader mode URLs cannot be navigated to
+            await browser.tabs.reload(tabId);
+        } else {
+            // navigating to the same URL loads a discarded tab
+            await browser.tabs.update(tabId, {url: tab.url});
+        }
+
+        await loaded;
+    } catch(e) {
+        console.log("[TA] Could not load tab " + tabId, e);
+    }
+}
+
+/**
+ * Loads discarded tabs immediately (e.g. tabs that have been restored by the browser).
+ */
+export async function load(tabs:Tab[]):Promise<void> {
+    await Promise.all(tabs.map(tab => loadTab(tab.id)));
+}
+
+/**
+ * Loads discarded tabs one after another (at most `MAX_CONCURRENT_LOADS` at the same time).
+ * Tabs that have been activated or closed in the meantime are skipped.
+ */
+export async function loadProgressively(tabs:Tab[]):Promise<void> {
+    let queue:number[] = tabs.filter(tab => tab.discarded).map(tab => tab.id);
+
+    const loadNext = async () => {
+        while(queue.length > 0) {
+            await loadTab(queue.shift());
+            await wait(LOAD_PAUSE);
+        }
+    };
+
+    let workers:Promise<void>[] = [];
+
+    for(let i = 0; i < MAX_CONCURRENT_LOADS; i++) {
+        workers.push(loadNext());
+    }
+
+    await Promise.all(workers);
+}
@@ -0,0 +1,89 @@
+import { Bookmark, SessionId } from "../util/Types.js";
+import StorageMap from "../util/StorageMap.js";
+
+/**
+ * Reminders and auto-archiving of sessions. The settings are stored in the extension storage
+ * (not in the bookmarks) as a map from session bookmark ids to schedules.
+ * The alarms are managed by the background page (see background/Scheduler.ts).
+ */
+export const STORAGE_KEY = "schedules";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface Schedule {
+    remindAt?:number; // timestamp
+    archiveAfter?:number; // days without changes
+    lastUsed?:number; // timestamp of the last restore or set aside (only kept if archiveAfter is set)
+}
+
+let schedules:StorageMap<Schedule> = new StorageMap(STORAGE_KEY);
+
+/**
+ * Removes schedules of removed sessions. Only call this from the background page.
+ */
+export function init():void {
+    schedules.removeWithBookmarks();
+}
+
+export async function getSchedule(sessionId:SessionId):Promise<Schedule> {
+    return (await schedules.get(sessionId)) || {};
+}
+
+export async function getAll():Promise<Map<SessionId, Schedule>> {
+    const scheduleMap = await schedules.getAll();
+    return new Map(Object.keys(scheduleMap).map(id => [id, scheduleMap[id]] as [SessionId, Schedule]));
+}
+
+/**
+ * Replaces the schedule of a session, empty schedules are removed.
+ */
+export async function setSchedule(sessionId:SessionId, schedule:Schedule):Promise<void> {
+    let s:Schedule = {};
+
+    if(schedule.remindAt) {
+        s.remindAt = schedule.remindAt;
+    }
+
+    if(schedule.archiveAfter > 0) {
+        s.archiveAfter = Math.floor(schedule.archiveAfter);
+    }
+
+    await schedules.modify(map => {
+        const previous:Schedule|undefined = map[sessionId];
+
+        if(s.archiveAfter && previous && previous.lastUsed) {
+            s.lastUsed = previous.lastUsed;
+        }
+
+        if(s.remindAt || s.archiveAfter) {
+            map[sessionId] = s;
+        } else {
+            delete map[sessionId];
+        }
+    });
+}
+
+/**
+ * Records that a session has been restored or set aside, this delays its archiving.
+ */
+export function setUsed(sessionId:SessionId):Promise<void> {
+    return schedules.modify(map => {
+        if(map[sessionId] && map[sessionId].archiveAfter) {
+            map[sessionId].lastUsed = Date.now();
+        }
+    });
+}
+
+/**
+ * The last time tabs were added, removed or moved, the session was used (see `setUsed`) or the creation date.
+ */
+export function getLastChange(session:Bookmark, schedule:Schedule):number {
+    return Math.max(session.dateAdded || 0, session.dateGroupModified || 0, schedule.lastUsed || 0);
+}
+
+/**
+ * @returns The time the session will be archived or `undefined` if it will not be archived.
+ */
+export function getArchiveDate(session:Bookmark, schedule:Schedule):number|undefined {
+    return schedule.archiveAfter ? getLastChange(session, schedule) + schedule.archiveAfter * DAY : undefined;
+}
@@ -0,0 +1,106 @@
+import { Bookmark, SessionId } from "../util/Types.js";
+import StorageMap from "../util/StorageMap.js";
+
+/**
+ * Group folders are stored in the extension storage (not in the bookmarks)
+ * as a map from group folder ids to `true`.
+ */
+const groupStore:StorageMap<boolean> = new StorageMap("groups");
+
+/**
+ * A folder in the root folder, groups only contain session folders.
+ */
+export interface SessionTreeFolder extends Bookmark {
+    readonly group:boolean;
+}
+
+/**
+ * Forgets removed group folders. Only call this from the background page.
+ */
+export function init():void {
+    groupStore.removeWithBookmarks();
+}
+
+/**
+ * Sub-folders of the root folder that are marked as a group are session groups.
+ * Their sub-folders are sessions. Groups cannot be nested.
+ */
+export function isGroup(folder:SessionTreeFolder):boolean {
+    return folder.group;
+}
+
+/**
+ * Checks whether the folder with the given id is a group.
+ */
+export async function isGroupFolder(folderId:string):Promise<boolean> {
+    return (await groupStore.get(folderId)) === true;
+}
+
+/**
+ * Marks a folder of the root folder as a group.
+ */
+export async function addGroup(folderId:string):Promise<void> {
+    await groupStore.set(folderId, true);
+}
+
+function isFolder(bookmark:Bookmark):boolean {
+    return bookmark.type === "folder" || (!bookmark.url && bookmark.type === undefined);
+}
+
+/**
+ * Returns the sessions and groups (including their sessions) in the root folder.
+ * Groups can be identified via `isGroup`.
+ */
+export async function getSessionTree(rootFolderId:string):Promise<SessionTreeFolder[]> {
+    const [[root], groups] = await Promise.all([
+        browser.bookmarks.getSubTree(rootFolderId),
+        groupStore.getAll()
+    ]);
+
+    return (root.children || []).filter(isFolder).map(folder => {
+        const group:boolean = groups[folder.id] === true;
+
+        return Object.assign({}, folder, {
+            group: group,
+            // only folders can be part of a group
+            children: group ? folder.children.filter(isFolder) : folder.children
+        });
+    });
+}
+
+/**
+ * Returns all sessions of a session tree (including sessions in groups).
+ */
+export function getSessions(tree:SessionTreeFolder[]):Bookmark[] {
+    let sessions:Bookmark[] = [];
+
+    tree.forEach(folder => {
+        if(isGroup(folder)) {
+            sessions.push(...folder.children);
+        } else {
+            sessions.push(folder);
+        }
+    });
+
+    return sessions;
+}
+
+export function getGroups(tree:SessionTreeFolder[]):SessionTreeFolder[] {
+    return tree.filter(isGroup);
+}
+
+/**
+ * Checks whether the given bookmark is a session or a group (i.e. located in the root folder or a group).
+ */
+export async function isPartOfTree(rootFolderId:string, bookmarkId:SessionId):Promise<boolean> {
+    const [bookmark] = await browser.bookmarks.get(bookmarkId).catch(() => [] as Bookmark[]);
+
+    if(!bookmark) {
+        return false;
+    } else if(bookmark.parentId === rootFolderId) {
+        return true;
+    }
+
+    const [parent] = await browser.bookmarks.get(bookmark.parentId);
+    return parent.parentId === rootFolderId;
+}
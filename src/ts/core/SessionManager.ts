@@ -3,12 +3,23 @@ import TabData from "./TabData.js";
 import {
     SessionCommand,
     DataRequest,
+    DataDescriptor,
     CreateSessionArguments as CSA,
     ModifySessionArguments as MSA,
     ModifySessionMetaArguments as MSMA,
+    TrashArguments as TA,
+    ImportArguments as IA,
+    GroupArguments as GA,
+    DuplicateArguments as DA,
+    MergeArguments as MA, MoveArguments as MVA,
+    ContainerArguments as CA,
+    ContainerMappingArguments as CMA,
+    BackupArguments as BA,
     SessionCMD as CmdId,
     SessionEvent,
-    StateInfoData
+    SessionContentUpdate,
+    StateInfoData,
+    ExportArguments
 } from "../messages/Messages.js";
 import * as OptionsManager from "../options/OptionsManager.js";
 import { Bookmark, SessionId, Tab } from "../util/Types.js";
@@ -19,13 +30,27 @@ import { getCurrentWindowId, createTab, getAnotherWindow } from "../util/WebExtA
 import * as WindowFocusHistory from "../background/WindowFocusHistory.js";
 import { limit } from "../util/StringUtils.js";
 import { generateSessionTitle } from "./SessionTitleGenerator.js";
-
-type CmdCallback = (data:MSA|CSA|MSMA) => void;
+import * as Trash from "./Trash.js";
+import * as Export from "./Export.js";
+import * as Import from "./Import.js";
+import * as Tags from "./Tags.js";
+import * as Notes from "./Notes.js";
+import * as Containers from "./Containers.js";
+import * as Schedules from "./Schedules.js";
+import * as RecentlyClosed from "./RecentlyClosed.js";
+import { Schedule } from "./Schedules.js";
+import * as SessionGroups from "./SessionGroups.js";
+import * as Duplicates from "./Duplicates.js";
+
+type CmdCallback = (data:MSA|CSA|MSMA|TA|IA|GA|DA|MA|MVA|CA|CMA|BA) => void;
+
+type DataHandler = (req:DataRequest) => Promise<any>;
 
 const commands:Map<CmdId, CmdCallback> = new Map();
+const dataHandlers:Map<DataDescriptor, DataHandler> = new Map();
 
-commands.set("restore",        (data:MSA) => restore(data.sessionId, data.keepBookmarks || false));
-commands.set("restore-single", (data:MSA) => restoreSingle(data.tabBookmarkId));
+commands.set("restore",        (data:MSA) => restore(data.sessionId, data.keepBookmarks || false, data.newWindow || false));
+commands.set("restore-single", (data:MSA) => restoreSingle(data.tabBookmarkId, data.newWindow || false));
 
 commands.set("set-aside", async (data:MSA) => {
     await ActiveSessionManager.setAside(data.sessionId);
@@ -44,13 +69,67 @@ commands.set("remove",     (data:MSA) => removeSession(data.sessionId, data.keep
 commands.set("remove-tab", (data:MSA) => removeTabFromSession(data.tabBookmarkId));
 
 commands.set("rename",     (data:MSMA) => renameSession(data.sessionId, data.title));
+commands.set("set-tags",   (data:MSMA) => setSessionTags(data.sessionId, data.tags));
+commands.set("set-note",   (data:MSMA) => setNote(data.sessionId, data.tabBookmarkId, data.note));
+commands.set("set-schedule", (data:MSMA) => setSchedule(data.sessionId, data.schedule));
+
+commands.set("set-container",       (data:CA) => setSessionContainer(data.sessionId, data.cookieStoreId));
+commands.set("reopen-in-container", (data:CA) => reopenInContainer(data.sessionId, data.cookieStoreId, data.tabBookmarkIds));
+
+commands.set("map-containers", async (data:CMA) => {
+    await mapContainers(data.sessionId, data.mapping);
+    await restore(data.sessionId, data.keepBookmarks || false, data.newWindow || false);
+});
+
+commands.set("create-group",  (data:GA) => createGroup(data.title));
+commands.set("move-to-group", (data:GA) => moveToGroup(data.sessionId, data.groupId));
+commands.set("remove-group",  (data:GA) => removeGroup(data.groupId));
+
+commands.set("merge", (data:MA) => mergeSessions(data.sessionId, data.targetSessionId));
+commands.set("split", (data:MSA) => splitSession(data.tabBookmarkId));
+
+commands.set("move-tab",     (data:MVA) => moveTab(data.tabBookmarkId, data.parentId, data.index));
+commands.set("move-session", (data:MVA) => moveSession(data.sessionId, data.parentId, data.index));
+
+commands.set("remove-duplicates", async (data:DA) => {
+    if(data.sessionId) {
+        await Duplicates.removeDuplicatesInSession(data.sessionId);
+    } else {
+        await Duplicates.removeDuplicates(data.url);
+    }
+
+    updateBrowserActionContextMenu();
+});
+
+commands.set("restore-removed", async (data:TA) => {
+    await Trash.restore(data.entryId);
+    updateBrowserActionContextMenu();
+});
+
+commands.set("import", async (data:IA) => {
+    await Import.importSessions(data.sessions);
+    updateBrowserActionContextMenu();
+});
 
 export async function init() {
     WindowFocusHistory.init();
+    Tags.init();
+    Notes.init();
+    Schedules.init();
+    SessionGroups.init();
+    RecentlyClosed.init();
+    Containers.init();
     await ActiveSessionManager.findActiveSessions();
     updateBrowserActionContextMenu();
 }
 
+/**
+ * Registers a command of a feature the session manager does not depend on.
+ */
+export function addCommand(cmd:CmdId, callback:CmdCallback):void {
+    commands.set(cmd, callback);
+}
+
 export async function execCommand(sc:SessionCommand):Promise<any> {
     let callback = commands.get(sc.cmd);
 
@@ -61,9 +140,27 @@ export async function execCommand(sc:SessionCommand):Promise<any> {
     }
 }
 
+/**
+ * Registers a data request handler of a feature the session manager does not depend on.
+ */
+export function addDataHandler(data:DataDescriptor, handler:DataHandler):void {
+    dataHandlers.set(data, handler);
+}
+
 export async function dataRequest(req:DataRequest):Promise<any> {
-    if(req.data === "active-sessions") {
+    let handler = dataHandlers.get(req.data);
+
+    if(handler) {
+        return handler(req);
+    } else if(req.data === "active-sessions") {
         return ActiveSessionManager.getActiveSessions();
+    } else if(req.data === "trash") {
+        return Trash.getEntries();
+    } else if(req.data === "duplicates") {
+        return Duplicates.findDuplicates();
+    } else if(req.data === "export") {
+        let args = req.args as ExportArguments;
+        return Export.exportSessions(args.format, args.sessionIds);
     } else if(req.data === "state-info") {
         let sessions:ActiveSessionData[] = ActiveSessionManager.getActiveSessions();
         let tabs:Tab[] = await browser.tabs.query({
@@ -103,20 +200,96 @@ export async function dataRequest(req:DataRequest):Promise<any> {
     }
 }
 
-export async function restore(sessionId:SessionId, keepBookmarks:boolean):Promise<void> {
+export async function restore(sessionId:SessionId, keepBookmarks:boolean, newWindow:boolean = false):Promise<void> {
+    // tabs of removed containers cannot be created, let the user choose replacements first
+    if(!ActiveSessionManager.getActiveSession(sessionId)) {
+        const missing = await Containers.getMissingContainers(await browser.bookmarks.getChildren(sessionId));
+
+        if(missing.length > 0) {
+            // the mapping page restores the session ("map-containers" command)
+            await showContainerMapping(sessionId, keepBookmarks, newWindow);
+            return;
+        }
+    }
+
     let activeSessionsEnabled:boolean = await OptionsManager.getValue("activeSessions");
 
     // delegate
     if(activeSessionsEnabled) {
-        await ActiveSessionManager.restore(sessionId);
+        await ActiveSessionManager.restore(sessionId, newWindow);
     } else {
-        await ClassicSessionManager.restore(sessionId, keepBookmarks);
+        await ClassicSessionManager.restore(sessionId, keepBookmarks, newWindow);
     }
 
+    await Schedules.setUsed(sessionId);
     updateBrowserActionContextMenu();
 }
 
-export async function restoreSingle(tabBookmarkId:string) {
+async function showContainerMapping(sessionId:SessionId, keepBookmarks:boolean, newWindow:boolean):Promise<void> {
+    let params = new URLSearchParams();
+    params.append("sessionId", sessionId);
+    params.append("keepBookmarks", keepBookmarks+"");
+    params.append("newWindow", newWindow+"");
+
+    await browser.windows.create({
+        allowScriptsToClose: true,
+        width: 560,
+        height: 420,
+        titlePreface: "Tabs Aside! ",
+        type: "popup",
+        url: browser.runtime.getURL("html/container-mapping.html") + "?" + params
+    });
+}
+
+/**
+ * Replaces missing containers in the tab bookmarks of a session.
+ * The replacements are also used for tabs of other sessions (see `createTab`).
+ * @param mapping Missing container -> existing container, `DEFAULT_CONTAINER` or `NEW_CONTAINER`
+ */
+async function mapContainers(sessionId:SessionId, mapping:Containers.ContainerMapping):Promise<void> {
+    const [sessionBookmark] = await browser.bookmarks.get(sessionId);
+    let replacements:Map<string, string> = new Map();
+    let newContainers:number = 0;
+
+    for(const missingCookieStoreId of Object.keys(mapping)) {
+        let cookieStoreId:string = mapping[missingCookieStoreId];
+
+        if(cookieStoreId === Containers.NEW_CONTAINER) {
+            const name:string = sessionBookmark.title + (newContainers > 0 ? " " + (newContainers + 1) : "");
+
+            try {
+                cookieStoreId = await Containers.createContainer(name, newContainers++);
+            } catch(e) {
+                console.error("[TA] Failed to create container: " + e, e);
+                cookieStoreId = Containers.DEFAULT_CONTAINER;
+            }
+        }
+
+        replacements.set(missingCookieStoreId, cookieStoreId);
+        await Containers.setReplacement(missingCookieStoreId, cookieStoreId);
+    }
+
+    let changedTabs:string[] = [];
+
+    for(const tabBookmark of await browser.bookmarks.getChildren(sessionId)) {
+        const data:TabData = TabData.createFromBookmark(tabBookmark);
+
+        if(data.cookieStoreId && replacements.has(data.cookieStoreId)) {
+            const cookieStoreId:string = replacements.get(data.cookieStoreId);
+            const update = data.withCookieStoreId(
+                cookieStoreId === Containers.DEFAULT_CONTAINER ? undefined : cookieStoreId
+            ).getBookmarkUpdate();
+
+            await browser.bookmarks.update(tabBookmark.id, update);
+            changedTabs.push(tabBookmark.id);
+        }
+    }
+
+    // update sidebar
+    SessionContentUpdate.sendChanges(sessionId, {changedTabs: changedTabs});
+}
+
+export async function restoreSingle(tabBookmarkId:string, newWindow:boolean = false) {
     let tabBookmark:Bookmark = (await browser.bookmarks.get(tabBookmarkId))[0];
     let sessionId:SessionId = tabBookmark.parentId;
     let session:ActiveSession = ActiveSessionManager.getActiveSession(sessionId);
@@ -127,7 +300,20 @@ export async function restoreSingle(tabBookmarkId:string) {
     } else {
         // create a new tab (no active session) otherwise
         let data:TabData = TabData.createFromBookmark(tabBookmark);
-        createTab(data.getTabCreateProperties(true));
+        let createProperties = data.getTabCreateProperties(true);
+
+        if(newWindow) {
+            let wnd:browser.windows.Window = await browser.windows.create();
+            createProperties.windowId = wnd.id;
+            delete createProperties.index;
+
+            await createTab(createProperties);
+
+            // remove "new tab" tab that gets created automatically when creating a new window
+            browser.tabs.remove(wnd.tabs[0].id);
+        } else {
+            createTab(createProperties);
+        }
     }
 
     updateBrowserActionContextMenu();
@@ -169,6 +355,11 @@ export async function createSessionFromTabs(
     // sort tabs by tab index to prevent insertion order problems
     tabs = tabs.sort((a,b) => a.index - b.index);
 
+    // skip duplicates (if enabled)
+    const uniqueTabs:Tab[] = await Duplicates.filterNewTabs(tabs);
+    const duplicateTabs:Tab[] = tabs.filter(tab => !uniqueTabs.includes(tab));
+    tabs = uniqueTabs;
+
     let sessionId:string;
 
     // create session
@@ -191,6 +382,11 @@ export async function createSessionFromTabs(
         sessionId = await ClassicSessionManager.createSession(tabs, setAside, title);
     }
 
+    if(setAside && duplicateTabs.length > 0) {
+        // duplicates are not part of the session but they should be set aside as well
+        browser.tabs.remove(duplicateTabs.map(tab => tab.id));
+    }
+
     updateBrowserActionContextMenu();
 
     return sessionId;
@@ -252,15 +448,154 @@ export async function removeTabFromSession(tabBookmarkId:string):Promise<void> {
     
     if(session) {
         // session is active
-        console.error("[TA] Removing a tab from an active session is currently not supported.");
-        //TODO
-        return;
+        await ActiveSessionManager.removeTabFromSession(tabBookmarkId);
     } else {
         // session is not active
         ClassicSessionManager.removeTabFromSession(tabBookmark);
     }
 }
 
+/**
+ * Moves all tabs of a session to the end of another session and removes the (empty) source session.
+ * @param sourceId Bookmark id of the session that will be merged into the target session.
+ * @param targetId Bookmark id of the target session.
+ */
+async function mergeSessions(sourceId:SessionId, targetId:SessionId):Promise<void> {
+    console.assert(sourceId !== targetId);
+
+    const tabBookmarks:Bookmark[] = await browser.bookmarks.getChildren(sourceId);
+
+    for(const tabBookmark of tabBookmarks) {
+        await browser.bookmarks.move(tabBookmark.id, {parentId: targetId});
+    }
+
+    await ActiveSessionManager.transferTabs(sourceId, targetId, tabBookmarks.map(bm => bm.id));
+
+    // the target session gets the tags of both sessions
+    const [sourceTags, targetTags] = await Promise.all([Tags.getTags(sourceId), Tags.getTags(targetId)]);
+    if(sourceTags.length > 0) {
+        await Tags.setTags(targetId, Tags.normalize(targetTags.concat(sourceTags)));
+        SessionEvent.send(targetId, "meta-update");
+    }
+
+    // the note of the source session is appended to the note of the target session
+    const [sourceNote, targetNote] = await Promise.all([Notes.getNote(sourceId), Notes.getNote(targetId)]);
+    if(sourceNote !== "") {
+        await Notes.setNote(targetId, targetNote !== "" ? targetNote + "\n\n" + sourceNote : sourceNote);
+        SessionEvent.send(targetId, "meta-update");
+    }
+
+    await browser.bookmarks.remove(sourceId);
+
+    // update views
+    SessionEvent.send(sourceId, "removed");
+    SessionContentUpdate.sendChanges(targetId, {addedTabs: tabBookmarks.map(bm => bm.id)});
+    updateBrowserActionContextMenu();
+}
+
+/**
+ * Moves a tab and all following tabs of its session into a new session.
+ * @param tabBookmarkId Bookmark id of the first tab of the new session.
+ */
+async function splitSession(tabBookmarkId:string):Promise<void> {
+    const [tabBookmark] = await browser.bookmarks.get(tabBookmarkId);
+    const sessionId:SessionId = tabBookmark.parentId;
+
+    if(tabBookmark.index === 0) {
+        // sessions cannot be empty
+        return Promise.reject("Cannot split a session at its first tab.");
+    }
+
+    const [sessionBookmark] = await browser.bookmarks.get(sessionId);
+    const tabBookmarks:Bookmark[] = (await browser.bookmarks.getChildren(sessionId))
+        .filter(bm => bm.index >= tabBookmark.index);
+
+    // the new session is placed right after the current one (in the same group)
+    const newSession:Bookmark = await browser.bookmarks.create({
+        title: await generateSessionTitle(),
+        type: "folder",
+        parentId: sessionBookmark.parentId,
+        index: sessionBookmark.index + 1
+    });
+
+    for(const bm of tabBookmarks) {
+        await browser.bookmarks.move(bm.id, {parentId: newSession.id});
+    }
+
+    await SessionEvent.send(newSession.id, "created");
+    await ActiveSessionManager.transferTabs(sessionId, newSession.id, tabBookmarks.map(bm => bm.id));
+
+    SessionContentUpdate.sendChanges(sessionId, {removedTabs: tabBookmarks.map(bm => bm.id)});
+    updateBrowserActionContextMenu();
+}
+
+/**
+ * Moves a tab to another position, either within its session or to another session.
+ * If the session is active the browser tab is moved as well.
+ * @param tabBookmarkId Bookmark id of the tab.
+ * @param targetId Bookmark id of the target session.
+ * @param index (optional) New position of the tab within the target session, appended if undefined.
+ */
+async function moveTab(tabBookmarkId:string, targetId:SessionId, index?:number):Promise<void> {
+    const [tabBookmark] = await browser.bookmarks.get(tabBookmarkId);
+    const sourceId:SessionId = tabBookmark.parentId;
+
+    await browser.bookmarks.move(tabBookmarkId, {
+        parentId: targetId,
+        index: index
+    });
+
+    // moves within an active session are handled by its bookmark listener
+    if(sourceId !== targetId) {
+        await ActiveSessionManager.transferTabs(sourceId, targetId, [tabBookmarkId]);
+
+        const activeSession:ActiveSession = ActiveSessionManager.getActiveSession(targetId);
+        if(activeSession) {
+            await activeSession.moveTab(tabBookmarkId);
+        }
+    }
+
+    SessionContentUpdate.sendChanges(targetId, sourceId === targetId ?
+        {changedTabs: [tabBookmarkId]} : {addedTabs: [tabBookmarkId]}
+    );
+
+    if(sourceId !== targetId) {
+        const remaining:Bookmark[] = await browser.bookmarks.getChildren(sourceId);
+
+        if(remaining.length === 0) {
+            // sessions cannot be empty
+            await browser.bookmarks.remove(sourceId);
+            SessionEvent.send(sourceId, "removed");
+            updateBrowserActionContextMenu();
+        } else {
+            SessionContentUpdate.sendChanges(sourceId, {removedTabs: [tabBookmarkId]});
+        }
+    }
+}
+
+/**
+ * Moves a session to another position.
+ * @param sessionId Bookmark id of the session folder.
+ * @param parentId Bookmark id of the target group or the root folder.
+ * @param index New position of the session within the parent folder.
+ */
+async function moveSession(sessionId:SessionId, parentId:string, index:number):Promise<void> {
+    const rootFolderId:string = await OptionsManager.getValue("rootFolder");
+    const [parent] = await browser.bookmarks.get(parentId);
+
+    if(parentId !== rootFolderId && (parent.parentId !== rootFolderId || !(await SessionGroups.isGroupFolder(parentId)))) {
+        return Promise.reject("Sessions can only be moved to the root folder or to a group.");
+    }
+
+    await browser.bookmarks.move(sessionId, {
+        parentId: parentId,
+        index: index
+    });
+
+    await SessionEvent.send(sessionId, "moved");
+    updateBrowserActionContextMenu();
+}
+
 async function renameSession(sessionId:SessionId, title:string):Promise<void> {
     if(title.trim() === "") {
         return Promise.reject("Invalid session name.");
@@ -282,16 +617,154 @@ async function renameSession(sessionId:SessionId, title:string):Promise<void> {
     updateBrowserActionContextMenu();
 }
 
+async function setSessionTags(sessionId:SessionId, tags:string[]):Promise<void> {
+    await Tags.setTags(sessionId, tags);
+
+    // update sidebar
+    SessionEvent.send(sessionId, "meta-update");
+}
+
+/**
+ * Sets the note of a session or of one of its tabs.
+ * @param tabBookmarkId (optional) If set the note belongs to this tab
+ */
+async function setNote(sessionId:SessionId, tabBookmarkId:string|undefined, note:string):Promise<void> {
+    await Notes.setNote(tabBookmarkId || sessionId, note || "");
+
+    // update sidebar
+    if(tabBookmarkId) {
+        SessionContentUpdate.sendChanges(sessionId, {changedTabs: [tabBookmarkId]});
+    } else {
+        SessionEvent.send(sessionId, "meta-update");
+    }
+}
+
+/**
+ * Sets the reminder and auto-archiving of a session (the alarms are updated by the scheduler).
+ */
+async function setSchedule(sessionId:SessionId, schedule:Schedule):Promise<void> {
+    await Schedules.setSchedule(sessionId, schedule || {});
+
+    // update sidebar
+    SessionEvent.send(sessionId, "meta-update");
+}
+
+/**
+ * Sets the container that is used for new tabs in the session window.
+ * @param cookieStoreId The container id, `undefined` for the default container
+ */
+async function setSessionContainer(sessionId:SessionId, cookieStoreId:string|undefined):Promise<void> {
+    await Containers.setSessionContainer(sessionId, cookieStoreId);
+
+    // update sidebar
+    SessionEvent.send(sessionId, "meta-update");
+}
+
+/**
+ * Moves tabs of a session to another container. Open tabs are reopened in that container.
+ * @param cookieStoreId The container id, `undefined` for the default container
+ * @param tabBookmarkIds (optional) Only move these tabs
+ */
+async function reopenInContainer(sessionId:SessionId, cookieStoreId:string|undefined, tabBookmarkIds?:string[]):Promise<void> {
+    let tabBookmarks:Bookmark[] = await browser.bookmarks.getChildren(sessionId);
+
+    if(tabBookmarkIds) {
+        tabBookmarks = tabBookmarks.filter(tabBookmark => tabBookmarkIds.includes(tabBookmark.id));
+    }
+
+    let updatedBookmarks:Bookmark[] = [];
+
+    for(const tabBookmark of tabBookmarks) {
+        const data:TabData = TabData.createFromBookmark(tabBookmark).withCookieStoreId(cookieStoreId);
+        updatedBookmarks.push(await browser.bookmarks.update(tabBookmark.id, data.getBookmarkUpdate()));
+    }
+
+    // if the session is active, replace its open tabs
+    let activeSession = ActiveSessionManager.getActiveSession(sessionId);
+    if(activeSession) {
+        await activeSession.reopenTabs(updatedBookmarks);
+    }
+
+    // update sidebar
+    SessionContentUpdate.sendChanges(sessionId, {changedTabs: updatedBookmarks.map(bm => bm.id)});
+}
+
+async function createGroup(title?:string):Promise<void> {
+    const rootFolderId:string = await OptionsManager.getValue("rootFolder");
+
+    const groupBookmark:Bookmark = await browser.bookmarks.create({
+        title: title || browser.i18n.getMessage("session_group_title_default"),
+        type: "folder",
+        parentId: rootFolderId,
+        index: 0
+    });
+
+    await SessionGroups.addGroup(groupBookmark.id);
+    SessionEvent.send(groupBookmark.id, "group-created");
+}
+
+/**
+ * Moves a session into a group.
+ * @param sessionId Bookmark id of the session folder.
+ * @param groupId Bookmark id of the group folder, if undefined the session is moved out of its group.
+ */
+export async function moveToGroup(sessionId:SessionId, groupId?:string):Promise<void> {
+    const rootFolderId:string = await OptionsManager.getValue("rootFolder");
+
+    await browser.bookmarks.move(sessionId, {
+        parentId: groupId || rootFolderId,
+        index: 0
+    });
+
+    await SessionEvent.send(sessionId, "moved");
+    updateBrowserActionContextMenu();
+}
+
+/**
+ * Removes a group folder, the sessions of this group will be moved to the root folder.
+ */
+async function removeGroup(groupId:string):Promise<void> {
+    const rootFolderId:string = await OptionsManager.getValue("rootFolder");
+    const [group] = await browser.bookmarks.getSubTree(groupId);
+    console.assert(group.parentId === rootFolderId && await SessionGroups.isGroupFolder(groupId));
+
+    // keep the order of the sessions
+    let index:number = group.index;
+    for(const session of group.children) {
+        await browser.bookmarks.move(session.id, {
+            parentId: rootFolderId,
+            index: index++
+        });
+
+        await SessionEvent.send(session.id, "moved");
+    }
+
+    await browser.bookmarks.remove(groupId);
+    SessionEvent.send(groupId, "removed");
+    updateBrowserActionContextMenu();
+}
+
+/**
+ * Returns all sessions, including sessions in groups.
+ */
 export async function getSessionBookmarks():Promise<Bookmark[]> {
+    return SessionGroups.getSessions(await getSessionTree());
+}
+
+/**
+ * Returns sessions and groups in the root folder, see `SessionGroups.getSessionTree`.
+ */
+export async function getSessionTree():Promise<SessionGroups.SessionTreeFolder[]> {
     let rootFolderId:string = await OptionsManager.getValue("rootFolder");
 
-    return browser.bookmarks.getChildren(rootFolderId);
+    return SessionGroups.getSessionTree(rootFolderId);
 }
 
 let contextMenuEntries = [];
 
-async function updateBrowserActionContextMenu():Promise<void> {
-    const allSessions = await getSessionBookmarks();
+export async function updateBrowserActionContextMenu():Promise<void> {
+    const tree = await getSessionTree();
+    const isRestorable = (session:Bookmark) => ActiveSessionManager.getActiveSession(session.id) === undefined;
 
     // remove old entries
     let oldEntries = contextMenuEntries;
@@ -299,21 +772,35 @@ async function updateBrowserActionContextMenu():Promise<void> {
     await Promise.all(oldEntries.map(id => browser.menus.remove(id)))
         .catch(error => console.error("[TA] Failed to remove menu items.", error));
 
+    const createEntry = (session:Bookmark, parentId?:string) => browser.menus.create({
+        contexts: ["browser_action"],
+        id: session.id,
+        parentId: parentId,
+        title: browser.i18n.getMessage("browser_action_quick_restore", limit(session.title, 20)),
+        onclick: () => restore(session.id, false)
+    });
+
     // add new entries
-    await Promise.all(allSessions
-        .filter(b => ActiveSessionManager.getActiveSession(b.id) === undefined)
-        .slice(0, browser.menus.ACTION_MENU_TOP_LEVEL_LIMIT)
-        .map(b => {
-            let itemId = browser.menus.create({
-                contexts: ["browser_action"],
-                id: b.id,
-                title: browser.i18n.getMessage("browser_action_quick_restore", limit(b.title, 20)),
-                onclick: () => restore(b.id, false)
+    try {
+        tree.filter(folder => SessionGroups.isGroup(folder) ? folder.children.some(isRestorable) : isRestorable(folder))
+            .slice(0, browser.menus.ACTION_MENU_TOP_LEVEL_LIMIT)
+            .forEach(folder => {
+                if(SessionGroups.isGroup(folder)) {
+                    // groups are submenus
+                    let groupItemId = browser.menus.create({
+                        contexts: ["browser_action"],
+                        id: "group-" + folder.id,
+                        title: limit(folder.title, 30)
+                    });
+
+                    folder.children.filter(isRestorable).forEach(session => createEntry(session, groupItemId + ""));
+
+                    contextMenuEntries.push(groupItemId);
+                } else {
+                    contextMenuEntries.push(createEntry(folder));
+                }
             });
-
-            contextMenuEntries.push(itemId);
-        })
-    ).catch(error => {
+    } catch(error) {
         console.error("[TA] Failed to create browser action context menu.", error);
-    });
+    }
 }
@@ -31,7 +31,7 @@ const readerPrefix         = "about:reader?url=";
 const viewSourcePrefix     = "view-source:";
 const defaultCookieStoreId = "firefox-default";
 
-interface TabDetails {
+export interface TabDetails {
     pinned:boolean;
     isInReaderMode:boolean;
     title:string;
@@ -86,7 +86,8 @@ export default class TabData {
             details.cookieStoreId = tab.cookieStoreId;
         }
         
-        if(tab.isInReaderMode) {
+        // while switching to reader mode isInReaderMode is not set yet
+        if(tab.isInReaderMode || tab.url.startsWith(readerPrefix)) {
             details.isInReaderMode = true;
             // URL format
             // "about:reader?url=https%3A%2F%2Fexample.com%2Freader-compatible-page"
@@ -103,6 +104,23 @@ export default class TabData {
         return new TabData(details);
     }
 
+    /**
+     * Creates an instance from (partial) tab details, e.g. from imported data.
+     * Unlike bookmarks the URL does not include the view source prefix.
+     */
+    public static createFromDetails(details:Partial<TabDetails> & {url:string, title:string}):TabData {
+        return new TabData({
+            url: details.url,
+            title: details.title,
+            pinned: details.pinned || false,
+            isInReaderMode: details.isInReaderMode || false,
+            viewSource: details.viewSource || false,
+            index: details.index,
+            favIconUrl: details.favIconUrl,
+            cookieStoreId: details.cookieStoreId
+        });
+    }
+
     public static createFromBookmark(bookmark:Bookmark):TabData {
         let data:TitleData = this.decodeTitle(bookmark.title);
 
@@ -113,7 +131,8 @@ export default class TabData {
             isInReaderMode: data.flags.has("reading"),
             viewSource: false,
             index: bookmark.index,
-            favIconUrl: this.getFavIconURL(bookmark.url),
+            // the favicon is looked up in the favicon store (see Favicons.getURL)
+            favIconUrl: undefined,
             cookieStoreId: undefined
         };
 
@@ -129,6 +148,22 @@ export default class TabData {
         return new TabData(details);
     }
 
+    /**
+     * @returns A copy of this instance with a different container
+     */
+    public withCookieStoreId(cookieStoreId:string|undefined):TabData {
+        return new TabData({
+            pinned: this.pinned,
+            isInReaderMode: this.isInReaderMode,
+            title: this.title,
+            url: this.url,
+            favIconUrl: this.favIconUrl,
+            viewSource: this.viewSource,
+            cookieStoreId: cookieStoreId,
+            index: this.index
+        });
+    }
+
     public getTabCreateProperties(active:boolean = false):TabCreateProperties {
          // active, pinned and reader mode tabs, 'new tab' and "about" urls cannot be created and discarded
         let discardTab:boolean = !active
@@ -166,7 +201,7 @@ export default class TabData {
         return {
             parentId: parentId,
             title: this.encodeTitle(),
-            url: this.url,
+            url: this.getBookmarkURL(),
             index: this.index
         };
     }
@@ -174,10 +209,18 @@ export default class TabData {
     public getBookmarkUpdate():BookmarkChanges {
         return {
             title: this.encodeTitle(),
-            url: this.url
+            url: this.getBookmarkURL()
         };
     }
 
+    /**
+     * Bookmarks store the URL without the view source prefix (see the `src` flag).
+     */
+    private getBookmarkURL():string {
+        return this.viewSource && this.url.startsWith(viewSourcePrefix) ?
+            this.url.substr(viewSourcePrefix.length) : this.url;
+    }
+
     public isPrivileged():boolean {
         return !(validURL.test(this.url) || this.url === "about:newtab");
     }
@@ -235,12 +278,4 @@ export default class TabData {
             variables: variables
         };
     }
-
-    private static getFavIconURL(url:string):string {
-        // guess the favicon path
-        return (new URL(url)).origin + "/favicon.ico";
-
-        // alternative:
-        // link.href = "http://s2.googleusercontent.com/s2/favicons?domain=" + url.hostname;
-    }
 }
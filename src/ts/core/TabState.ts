@@ -0,0 +1,336 @@
+import { Tab } from "../util/Types.js";
+import StorageMap from "../util/StorageMap.js";
+import * as PageAccess from "../util/PageAccess.js";
+import * as OptionsManager from "../options/OptionsManager.js";
+import * as MessageListener from "../messages/MessageListener.js";
+import { OptionUpdateEvent } from "../messages/Messages.js";
+import { wait } from "../util/PromiseUtils.js";
+
+/**
+ * Page state of tabs that have been set aside: the scroll position and the URLs
+ * that were visited before the current page (back history).
+ * The state is captured before a tab is closed and replayed when its bookmark is opened again.
+ * States are stored in the extension storage, keyed by the bookmark id of the tab.
+ */
+// only the most recent previous URLs are kept (each one has to be loaded again)
+const MAX_HISTORY = 5;
+
+// replaying does not wait longer than this for a page to load
+const LOAD_TIMEOUT = 20000;
+
+// capturing does not delay setting tabs aside for longer than this
+const CAPTURE_TIMEOUT = 2000;
+
+const replayableURL = /^https?:\/\//i;
+
+type TabBookmark = [number, string];
+
+export interface StoredTabState {
+    scrollX:number;
+    scrollY:number;
+    history?:string[]; // previous URLs, oldest first
+}
+
+type PageState = {
+    scrollX:number;
+    scrollY:number;
+    historyLength:number;
+};
+
+// URLs visited in a tab (including the current URL), recorded by the background page
+let navigationHistory:Map<number, string[]> = new Map();
+
+// tabs that are currently navigating through their restored history
+let replaying:Set<number> = new Set();
+
+let states:StorageMap<StoredTabState> = new StorageMap("tabStates");
+
+/**
+ * Records the navigation history of tabs (if enabled) and removes states of removed bookmarks.
+ * Only call this from the background page.
+ */
+export function init():void {
+    MessageListener.add("OptionUpdate", (msg:OptionUpdateEvent) => {
+        if(msg.key === "saveTabState") {
+            updateNavigationListener();
+        }
+    });
+
+    updateNavigationListener();
+
+    browser.tabs.onRemoved.addListener(tabId => {
+        navigationHistory.delete(tabId);
+        replaying.delete(tabId);
+    });
+
+    states.removeWithBookmarks();
+}
+
+const navigationListener = (tabId:number, changeInfo, tab:Tab) => {
+    if(changeInfo.url && !tab.incognito) {
+        recordNavigation(tabId, changeInfo.url);
+    }
+};
+
+/**
+ * Navigations are only recorded if tab states are enabled.
+ */
+async function updateNavigationListener():Promise<void> {
+    const enabled:boolean = await isEnabled();
+
+    if(enabled && !browser.tabs.onUpdated.hasListener(navigationListener)) {
+        browser.tabs.onUpdated.addListener(navigationListener);
+    } else if(!enabled && browser.tabs.onUpdated.hasListener(navigationListener)) {
+        browser.tabs.onUpdated.removeListener(navigationListener);
+        navigationHistory.clear();
+    }
+}
+
+function recordNavigation(tabId:number, url:string):void {
+    if(!replayableURL.test(url)) {
+        return;
+    }
+
+    let history:string[] = navigationHistory.get(tabId) || [];
+
+    if(history[history.length - 1] === url) {
+        return;
+    } else if(history[history.length - 2] === url) {
+        // most likely a back navigation
+        history.pop();
+    } else {
+        history.push(url);
+    }
+
+    navigationHistory.set(tabId, history.slice(-(MAX_HISTORY + 1)));
+
+    // survives browser restarts (unlike the background page)
+    browser.sessions.setTabValue(tabId, "history", navigationHistory.get(tabId)).catch(
+        e => console.log("[TA] Could not store the history of tab " + tabId, e)
+    );
+}
+
+async function getNavigationHistory(tabId:number):Promise<string[]> {
+    if(navigationHistory.has(tabId)) {
+        return navigationHistory.get(tabId);
+    }
+
+    const history = await browser.sessions.getTabValue(tabId, "history");
+    return (history instanceof Array) ? history as string[] : [];
+}
+
+/**
+ * Content script helper, runs in the page.
+ */
+function getPageState():PageState {
+    return {
+        scrollX: window.scrollX,
+        scrollY: window.scrollY,
+        historyLength: window.history.length
+    };
+}
+
+/**
+ * Content script helper, runs in the page.
+ */
+function setScrollPosition(x:number, y:number):void {
+    window.scrollTo(x, y);
+}
+
+/**
+ * Tab states are only captured if the user has enabled them (requires access to all pages).
+ */
+async function isEnabled():Promise<boolean> {
+    return (await OptionsManager.getValue<boolean>("saveTabState")) && (await PageAccess.isGranted());
+}
+
+/**
+ * @returns The state of the tab or `undefined` if there is nothing to restore
+ */
+async function captureTab(tabId:number):Promise<StoredTabState|undefined> {
+    const tab:Tab = await browser.tabs.get(tabId);
+
+    if(tab.discarded || tab.incognito) {
+        return undefined;
+    }
+
+    // pages that are still loading are not waited for
+    const [page] = await browser.tabs.executeScript(tabId, {
+        code: `(${getPageState.toString()})()`,
+        runAt: "document_start"
+    }) as PageState[];
+
+    // the recorded history might contain entries that are not part of the actual session history
+    const n:number = Math.min(MAX_HISTORY, page.historyLength - 1);
+    const history:string[] = n > 0 ? (await getNavigationHistory(tabId))
+        .filter(url => url !== tab.url)
+        .slice(-n) : [];
+
+    let state:StoredTabState = {
+        scrollX: page.scrollX,
+        scrollY: page.scrollY
+    };
+
+    if(history.length > 0) {
+        state.history = history;
+    }
+
+    return state.scrollX > 0 || state.scrollY > 0 || state.history ? state : undefined;
+}
+
+/**
+ * Captures the state of tabs that are about to be set aside.
+ * Tabs without a page state (discarded tabs, privileged pages) or that take too long are skipped.
+ * @param tabs Pairs of tab id and bookmark id
+ */
+export async function capture(tabs:TabBookmark[]):Promise<void> {
+    if(tabs.length === 0 || !(await isEnabled())) {
+        return;
+    }
+
+    // states of skipped tabs are removed
+    let captured:Map<string, StoredTabState|undefined> = new Map(
+        tabs.map(([, tabBookmarkId]) => [tabBookmarkId, undefined] as [string, undefined])
+    );
+
+    await Promise.race([
+        Promise.all(tabs.map(([tabId, tabBookmarkId]) => captureTab(tabId).then(
+            state => { captured.set(tabBookmarkId, state); },
+            e => console.log("[TA] Could not capture the state of tab " + tabId, e)
+        ))),
+        wait(CAPTURE_TIMEOUT)
+    ]);
+
+    await states.modify(map => captured.forEach((state, tabBookmarkId) => {
+        if(state) {
+            map[tabBookmarkId] = state;
+        } else {
+            delete map[tabBookmarkId];
+        }
+    }));
+}
+
+export function get(tabBookmarkId:string):Promise<StoredTabState|undefined> {
+    return states.get(tabBookmarkId);
+}
+
+export function remove(tabBookmarkIds:string[]):Promise<void> {
+    return states.remove(tabBookmarkIds);
+}
+
+/**
+ * Whether the tab is navigating through its restored history.
+ * The URLs of these tabs should not be stored.
+ */
+export function isReplaying(tabId:number):boolean {
+    return replaying.has(tabId);
+}
+
+function isLoaded(tab:Tab):boolean {
+    return tab.status === "complete" && !tab.discarded && tab.url !== "about:blank";
+}
+
+/**
+ * Resolves when the tab has finished loading. Discarded tabs are loaded when they are activated.
+ * @param checkCurrent Resolve immediately if the tab is already loaded
+ * @param timeout (optional) Resolve after this many milliseconds even if the tab is still loading
+ */
+export function waitForLoad(tabId:number, checkCurrent:boolean, timeout?:number):Promise<void> {
+    return new Promise((resolve, reject) => {
+        let timeoutId:number = 0;
+
+        const cleanUp = () => {
+            browser.tabs.onUpdated.removeListener(updateListener);
+            browser.tabs.onRemoved.removeListener(removeListener);
+            window.clearTimeout(timeoutId);
+        };
+
+        const updateListener = (id:number, changeInfo, tab:Tab) => {
+            if(id === tabId && isLoaded(tab)) {
+                cleanUp();
+                resolve();
+            }
+        };
+
+        const removeListener = (id:number) => {
+            if(id === tabId) {
+                cleanUp();
+                reject(new Error(`Tab ${tabId} has been closed.`));
+            }
+        };
+
+        browser.tabs.onUpdated.addListener(updateListener);
+        browser.tabs.onRemoved.addListener(removeListener);
+
+        if(timeout !== undefined) {
+            timeoutId = window.setTimeout(() => {
+                cleanUp();
+                resolve();
+            }, timeout);
+        }
+
+        if(checkCurrent) {
+            browser.tabs.get(tabId).then(tab => {
+                if(isLoaded(tab)) {
+                    cleanUp();
+                    resolve();
+                }
+            }, () => {});
+        }
+    });
+}
+
+/**
+ * Replays the state of a restored tab once it is loaded: the previous URLs are loaded
+ * (so the back button works again) and the scroll position is restored.
+ * Replaying stops if the user navigates to another page in the meantime.
+ * The state is removed afterwards, it is kept if replaying fails.
+ * @param tabId Id of the restored browser tab
+ */
+export async function replay(tabId:number, tabBookmarkId:string, state:StoredTabState):Promise<void> {
+    try {
+        // discarded tabs are loaded when the user activates them
+        await waitForLoad(tabId, true);
+
+        let url:string = (await browser.tabs.get(tabId)).url;
+        const finalUrl:string = url;
+        const history:string[] = (state.history || []).filter(previous => replayableURL.test(previous));
+
+        if(history.length > 0) {
+            replaying.add(tabId);
+            navigationHistory.delete(tabId);
+
+            for(const previous of history.concat([finalUrl])) {
+                if((await browser.tabs.get(tabId)).url !== url) {
+                    // the user navigated to another page
+                    await states.remove([tabBookmarkId]);
+                    return;
+                }
+
+                const loaded:Promise<void> = waitForLoad(tabId, false, LOAD_TIMEOUT);
+                // avoid an unhandled rejection if the update fails
+                loaded.catch(() => {});
+
+                await browser.tabs.update(tabId, {url: previous});
+                await loaded;
+
+                // the page might have been redirected
+                url = (await browser.tabs.get(tabId)).url;
+            }
+
+            replaying.delete(tabId);
+        }
+
+        if(state.scrollX > 0 || state.scrollY > 0) {
+            await browser.tabs.executeScript(tabId, {
+                code: `(${setScrollPosition.toString()})(${state.scrollX}, ${state.scrollY})`
+            });
+        }
+
+        await states.remove([tabBookmarkId]);
+    } catch(e) {
+        console.log("[TA] Could not restore the state of tab " + tabId, e);
+    } finally {
+        replaying.delete(tabId);
+    }
+}
@@ -0,0 +1,55 @@
+import { SessionId } from "../util/Types.js";
+import StorageMap from "../util/StorageMap.js";
+
+/**
+ * Session tags are stored in the extension storage (not in the bookmarks)
+ * as a map from session bookmark ids to lists of tags.
+ */
+let tagStore:StorageMap<string[]> = new StorageMap("tags");
+
+/**
+ * Removes tags of removed sessions. Only call this from the background page.
+ */
+export function init():void {
+    tagStore.removeWithBookmarks();
+}
+
+/**
+ * Trims tags, removes empty tags and (case-insensitive) duplicates.
+ */
+export function normalize(tags:string[]):string[] {
+    let seen:Set<string> = new Set();
+
+    return tags.map(tag => tag.replace(/,/g, " ").trim())
+        .filter(tag => {
+            const key = tag.toLowerCase();
+
+            if(tag === "" || seen.has(key)) {
+                return false;
+            }
+
+            seen.add(key);
+            return true;
+        });
+}
+
+/**
+ * Parses a comma-separated list of tags.
+ */
+export function parse(str:string):string[] {
+    return normalize(str.split(","));
+}
+
+export async function getTags(sessionId:SessionId):Promise<string[]> {
+    return (await tagStore.get(sessionId)) || [];
+}
+
+export async function getAll():Promise<Map<SessionId, string[]>> {
+    const tags = await tagStore.getAll();
+    return new Map(Object.keys(tags).map(id => [id, tags[id]] as [SessionId, string[]]));
+}
+
+export async function setTags(sessionId:SessionId, tags:string[]):Promise<void> {
+    tags = normalize(tags);
+    await tagStore.set(sessionId, tags.length > 0 ? tags : undefined);
+}
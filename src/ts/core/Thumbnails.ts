@@ -0,0 +1,101 @@
+import * as OptionsManager from "../options/OptionsManager.js";
+import { Tab } from "../util/Types.js";
+import KeyValueStore from "../util/KeyValueStore.js";
+import * as PageAccess from "../util/PageAccess.js";
+import { wait } from "../util/PromiseUtils.js";
+
+/**
+ * Page thumbnails of tabs that have been set aside (used by the grid layout of the sidebar).
+ * Thumbnails are stored in IndexedDB as data URLs, keyed by the bookmark id of the tab.
+ */
+
+type TabBookmark = [number, string];
+
+const THUMBNAIL_WIDTH = 320;
+
+let store:KeyValueStore<string> = new KeyValueStore("thumbnails");
+
+export function init():void {
+    browser.bookmarks.onRemoved.addListener((id, removeInfo) => {
+        if(removeInfo.node.url) {
+            remove([id]);
+        } else {
+            // the ids of the tabs of a removed session are unknown
+            cleanUp();
+        }
+    });
+
+    cleanUp();
+}
+
+// capturing does not delay setting tabs aside for longer than this
+const CAPTURE_TIMEOUT = 2000;
+
+/**
+ * Thumbnails are only captured if the sidebar uses the grid layout.
+ */
+async function isEnabled():Promise<boolean> {
+    return (await OptionsManager.getValue<string>("sidebarTabLayout")) === "grid" && (await PageAccess.isGranted());
+}
+
+async function captureTab(tabId:number, tabBookmarkId:string):Promise<void> {
+    try {
+        const tab:Tab = await browser.tabs.get(tabId);
+
+        if(tab.discarded) {
+            return;
+        }
+
+        const thumbnail:string = await browser.tabs.captureTab(tabId, {
+            format: "jpeg",
+            quality: 75,
+            scale: Math.min(1, THUMBNAIL_WIDTH / tab.width)
+        });
+
+        await store.set(tabBookmarkId, thumbnail);
+    } catch(e) {
+        console.log("[TA] Could not capture tab " + tabId, e);
+    }
+}
+
+/**
+ * Captures thumbnails of tabs that are about to be set aside.
+ * Tabs that cannot be captured (e.g. discarded tabs) or take too long are skipped.
+ * @param tabs Pairs of tab id and bookmark id
+ */
+export async function capture(tabs:TabBookmark[]):Promise<void> {
+    if(tabs.length === 0 || !(await isEnabled())) {
+        return;
+    }
+
+    await Promise.race([
+        Promise.all(tabs.map(([tabId, tabBookmarkId]) => captureTab(tabId, tabBookmarkId))),
+        wait(CAPTURE_TIMEOUT)
+    ]);
+}
+
+/**
+ * @returns The thumbnail (data URL) of a tab or `undefined` if there is none.
+ */
+export function get(tabBookmarkId:string):Promise<string|undefined> {
+    return store.get(tabBookmarkId);
+}
+
+export function remove(tabBookmarkIds:string[]):Promise<void> {
+    return store.remove(tabBookmarkIds);
+}
+
+/**
+ * Removes thumbnails of bookmarks that do not exist anymore.
+ */
+export async function cleanUp():Promise<void> {
+    const keys:string[] = await store.getKeys();
+
+    const unused:string[] = (await Promise.all(
+        keys.map(id => browser.bookmarks.get(id).then(() => null, () => id))
+    )).filter(id => id !== null);
+
+    if(unused.length > 0) {
+        await remove(unused);
+    }
+}
@@ -0,0 +1,253 @@
+import * as OptionsManager from "../options/OptionsManager.js";
+import { Bookmark, SessionId } from "../util/Types.js";
+import { SessionEvent, SessionContentUpdate, TrashEvent } from "../messages/Messages.js";
+import * as SessionGroups from "./SessionGroups.js";
+import * as Tags from "./Tags.js";
+import * as Notes from "./Notes.js";
+import * as ActiveSessionManager from "./ActiveSessionManager.js";
+import StoredValue from "../util/StoredValue.js";
+
+const STORAGE_KEY = "trash";
+
+// maximum number of entries kept in the trash, older entries are dropped
+const TRASH_LIMIT = 50;
+
+export type TrashEntryType = "session" | "tab";
+
+export interface TrashedTab {
+    readonly title:string; // bookmark title, includes the encoded TabData flags
+    readonly url:string;
+    readonly index:number;
+    readonly note?:string;
+}
+
+export interface TrashEntry {
+    readonly id:string;
+    readonly type:TrashEntryType;
+    readonly removed:number; // timestamp
+    readonly sessionId:SessionId; // bookmark id of the (former) session folder
+    readonly sessionTitle:string;
+    readonly sessionIndex:number;
+    readonly groupId?:string; // bookmark id of the group folder, if the session was part of a group
+    readonly tabs:TrashedTab[];
+    // tags and notes are keyed by bookmark ids, restored bookmarks get new ids
+    readonly tags?:string[];
+    readonly note?:string; // session note
+}
+
+let trash:StoredValue<TrashEntry[]> = new StoredValue(STORAGE_KEY, () => []);
+
+function modifyEntries<T>(modify:(entries:TrashEntry[]) => T):Promise<T> {
+    return trash.modify(entries => {
+        const result:T = modify(entries);
+        entries.splice(TRASH_LIMIT);
+        return result;
+    });
+}
+
+function createEntryId():string {
+    return Date.now() + "-" + Math.random().toString(36).substr(2, 6);
+}
+
+function toTrashedTab(tabBookmark:Bookmark, notes:Map<string, string>):TrashedTab {
+    return {
+        title: tabBookmark.title,
+        url: tabBookmark.url,
+        index: tabBookmark.index,
+        note: notes.get(tabBookmark.id)
+    };
+}
+
+async function add(entry:TrashEntry):Promise<void> {
+    await modifyEntries(entries => entries.unshift(entry));
+
+    // notify the sidebar (undo)
+    TrashEvent.send(entry);
+}
+
+async function getGroupId(sessionBookmark:Bookmark):Promise<string|undefined> {
+    const rootFolderId:string = await OptionsManager.getValue<string>("rootFolder");
+
+    return sessionBookmark.parentId !== rootFolderId ? sessionBookmark.parentId : undefined;
+}
+
+/**
+ * Returns all entries, the most recently removed first.
+ */
+export function getEntries():Promise<TrashEntry[]> {
+    return trash.get();
+}
+
+/**
+ * Stores a snapshot of a session. This has to be called before the session bookmarks are removed.
+ * Sessions without tabs are ignored.
+ * @param sessionId Bookmark id of the session folder.
+ */
+export async function addSession(sessionId:SessionId):Promise<void> {
+    const [sessionBookmark] = await browser.bookmarks.getSubTree(sessionId);
+    const tabBookmarks:Bookmark[] = (sessionBookmark.children || []).filter(bm => bm.url);
+
+    if(tabBookmarks.length === 0) {
+        return;
+    }
+
+    const [tags, notes] = await Promise.all([Tags.getTags(sessionId), Notes.getAll()]);
+
+    await add({
+        id: createEntryId(),
+        type: "session",
+        removed: Date.now(),
+        sessionId: sessionId,
+        sessionTitle: sessionBookmark.title,
+        sessionIndex: sessionBookmark.index,
+        groupId: await getGroupId(sessionBookmark),
+        tabs: tabBookmarks.map(tabBookmark => toTrashedTab(tabBookmark, notes)),
+        tags: tags,
+        note: notes.get(sessionId)
+    });
+}
+
+/**
+ * Stores a snapshot of tabs from a single session.
+ * This has to be called before the tab bookmarks are removed.
+ * @param tabBookmarkIds Bookmark ids of tabs from the same session.
+ */
+export async function addTabs(tabBookmarkIds:string[]):Promise<void> {
+    if(tabBookmarkIds.length === 0) {
+        return;
+    }
+
+    const tabBookmarks:Bookmark[] = await browser.bookmarks.get(tabBookmarkIds);
+    const sessionId:SessionId = tabBookmarks[0].parentId;
+    console.assert(tabBookmarks.every(bm => bm.parentId === sessionId));
+
+    const [sessionBookmark] = await browser.bookmarks.get(sessionId);
+    const notes:Map<string, string> = await Notes.getAll();
+
+    await add({
+        id: createEntryId(),
+        type: "tab",
+        removed: Date.now(),
+        sessionId: sessionId,
+        sessionTitle: sessionBookmark.title,
+        sessionIndex: sessionBookmark.index,
+        groupId: await getGroupId(sessionBookmark),
+        tabs: tabBookmarks.map(tabBookmark => toTrashedTab(tabBookmark, notes)).sort((a, b) => a.index - b.index)
+    });
+}
+
+/**
+ * Restores an entry to its original session and position.
+ * If the original session does not exist anymore it will be recreated.
+ * Tabs restored into an active session are opened as well.
+ * The entry is put back into the trash if restoring fails.
+ * @returns The bookmark id of the session the tabs were restored to.
+ */
+export async function restore(entryId:string):Promise<SessionId> {
+    let entryIndex:number = -1;
+    const entry:TrashEntry = await modifyEntries(entries => {
+        entryIndex = entries.findIndex(e => e.id === entryId);
+        return entryIndex >= 0 ? entries.splice(entryIndex, 1)[0] : undefined;
+    });
+
+    if(!entry) {
+        throw new Error(`Trash entry ${entryId} does not exist.`);
+    }
+
+    const rootFolderId:string = await OptionsManager.getValue<string>("rootFolder");
+    let sessionId:SessionId = undefined;
+
+    if(entry.type === "tab") {
+        // check if the original session still exists
+        const [sessionBookmark] = await browser.bookmarks.get(entry.sessionId).catch(() => []);
+
+        if(sessionBookmark && await SessionGroups.isPartOfTree(rootFolderId, sessionBookmark.id)) {
+            sessionId = sessionBookmark.id;
+        }
+    }
+
+    const createSession:boolean = sessionId === undefined;
+    let addedTabs:string[] = [];
+
+    try {
+        if(createSession) {
+            sessionId = await createSessionFolder(entry, rootFolderId);
+
+            await Promise.all([
+                Tags.setTags(sessionId, entry.tags || []),
+                Notes.setNote(sessionId, entry.note || "")
+            ]);
+        }
+
+        const activeSession = createSession ? undefined : ActiveSessionManager.getActiveSession(sessionId);
+
+        // tabs are sorted by index, inserting them in this order restores their positions
+        for(const tab of entry.tabs) {
+            const n:number = (await browser.bookmarks.getChildren(sessionId)).length;
+
+            const tabBookmark:Bookmark = await browser.bookmarks.create({
+                parentId: sessionId,
+                title: tab.title,
+                url: tab.url,
+                index: Math.min(tab.index, n)
+            });
+
+            addedTabs.push(tabBookmark.id);
+
+            if(tab.note) {
+                await Notes.setNote(tabBookmark.id, tab.note);
+            }
+
+            if(activeSession) {
+                await activeSession.openBookmarkTab(tabBookmark);
+            }
+        }
+    } catch(e) {
+        // remove what has been recreated so far and keep the entry
+        if(createSession && sessionId !== undefined) {
+            await browser.bookmarks.removeTree(sessionId).catch(() => {});
+        } else {
+            await Promise.all(addedTabs.map(id => browser.bookmarks.remove(id).catch(() => {})));
+        }
+
+        await modifyEntries(entries => entries.splice(Math.min(entryIndex, entries.length), 0, entry));
+
+        throw e;
+    }
+
+    // update views
+    if(createSession) {
+        await SessionEvent.send(sessionId, "created");
+    } else {
+        SessionContentUpdate.sendChanges(sessionId, {addedTabs: addedTabs});
+    }
+
+    return sessionId;
+}
+
+/**
+ * Recreates the folder of a removed session (in its original group if it still exists).
+ * @returns The bookmark id of the new session folder.
+ */
+async function createSessionFolder(entry:TrashEntry, rootFolderId:string):Promise<SessionId> {
+    let parentId:string = rootFolderId;
+
+    if(entry.groupId) {
+        const [groupBookmark] = await browser.bookmarks.get(entry.groupId).catch(() => []);
+
+        if(groupBookmark && groupBookmark.parentId === rootFolderId) {
+            parentId = groupBookmark.id;
+        }
+    }
+
+    const sessions:Bookmark[] = await browser.bookmarks.getChildren(parentId);
+
+    const sessionBookmark:Bookmark = await browser.bookmarks.create({
+        title: entry.sessionTitle,
+        type: "folder",
+        parentId: parentId,
+        index: Math.min(entry.sessionIndex, sessions.length)
+    });
+
+    return sessionBookmark.id;
+}
@@ -0,0 +1,80 @@
+import * as HTMLUtils from "../util/HTMLUtilities.js";
+import { $$ } from "../util/HTMLUtilities.js";
+import { SessionCommand } from "../messages/Messages.js";
+import * as Containers from "../core/Containers.js";
+import { ContainerMapping, MissingContainer } from "../core/Containers.js";
+
+let _i18n = browser.i18n.getMessage;
+
+/**
+ * Lets the user choose replacements for the missing containers of a session before it is restored.
+ * Opened by `SessionManager.restore`, expected URL parameters: sessionId, keepBookmarks, newWindow
+ */
+(async function() {
+    await HTMLUtils.DOMReady();
+
+    // apply localization
+    HTMLUtils.i18n();
+    document.title = _i18n("container_mapping_title");
+
+    const params:URLSearchParams = new URL(window.location.href).searchParams;
+    const sessionId:string = params.get("sessionId");
+
+    const [[sessionBookmark], tabBookmarks, identities] = await Promise.all([
+        browser.bookmarks.get(sessionId),
+        browser.bookmarks.getChildren(sessionId),
+        Containers.getIdentities()
+    ]);
+    const missing:MissingContainer[] = await Containers.getMissingContainers(tabBookmarks);
+
+    $$("description").textContent = _i18n("container_mapping_description", sessionBookmark.title);
+
+    // missing container id -> selection
+    let selects:Map<string, HTMLSelectElement> = new Map();
+    const table:HTMLElement = $$("mapping");
+
+    missing.forEach(container => {
+        let row:HTMLTableRowElement = document.createElement("tr");
+
+        let label:HTMLTableCellElement = document.createElement("td");
+        label.textContent = _i18n("container_mapping_tabs", [container.cookieStoreId, container.numberOfTabs+""]);
+        row.appendChild(label);
+
+        let select:HTMLSelectElement = document.createElement("select");
+        const choices:[string, string][] = [
+            [Containers.NEW_CONTAINER, _i18n("container_mapping_new")],
+            [Containers.DEFAULT_CONTAINER, _i18n("container_mapping_default")]
+        ];
+        identities.forEach(identity => choices.push([identity.cookieStoreId, identity.name]));
+
+        choices.forEach(([cookieStoreId, name]) => {
+            let option:HTMLOptionElement = document.createElement("option");
+            option.value = cookieStoreId;
+            option.textContent = name;
+            select.appendChild(option);
+        });
+
+        let cell:HTMLTableCellElement = document.createElement("td");
+        cell.appendChild(select);
+        row.appendChild(cell);
+
+        table.appendChild(row);
+        selects.set(container.cookieStoreId, select);
+    });
+
+    $$("restore").addEventListener("click", async () => {
+        let mapping:ContainerMapping = {};
+        selects.forEach((select, cookieStoreId) => mapping[cookieStoreId] = select.value);
+
+        await SessionCommand.send("map-containers", {
+            sessionId: sessionId,
+            mapping: mapping,
+            keepBookmarks: params.get("keepBookmarks") === "true",
+            newWindow: params.get("newWindow") === "true"
+        });
+
+        window.close();
+    });
+
+    $$("cancel").addEventListener("click", () => window.close());
+})();
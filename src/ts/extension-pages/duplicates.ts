@@ -0,0 +1,88 @@
+import * as HTMLUtils from "../util/HTMLUtilities.js";
+import { $$ } from "../util/HTMLUtilities.js";
+import { DataRequest, SessionCommand } from "../messages/Messages.js";
+import * as MessageListener from "../messages/MessageListener.js";
+import { DuplicateEntry } from "../core/Duplicates.js";
+
+let _i18n = browser.i18n.getMessage;
+
+MessageListener.setDestination("duplicates-page");
+
+let updateTimeout:number = 0;
+
+(async function() {
+    await HTMLUtils.DOMReady();
+
+    // apply localization
+    HTMLUtils.i18n();
+    document.title = _i18n("duplicates_title");
+
+    $$("remove-all").addEventListener("click", () => {
+        SessionCommand.send("remove-duplicates", {});
+    });
+
+    await update();
+
+    // sessions have been modified (e.g. by removing duplicates)
+    MessageListener.add("SessionEvent", () => {
+        window.clearTimeout(updateTimeout);
+        updateTimeout = window.setTimeout(update, 250);
+    });
+})();
+
+async function update():Promise<void> {
+    const duplicates:DuplicateEntry[] = await DataRequest.send<DuplicateEntry[]>("duplicates");
+    const list:HTMLElement = $$("duplicate-list");
+
+    const n:number = duplicates.reduce((sum, entry) => sum + entry.occurrences.length - 1, 0);
+    $$("summary").textContent = n > 0 ?
+        _i18n("duplicates_summary", [n+"", duplicates.length+""]) :
+        _i18n("duplicates_none");
+    $$("remove-all").style.display = n > 0 ? "" : "none";
+
+    list.innerHTML = "";
+    duplicates.forEach(entry => list.appendChild(createEntryView(entry)));
+}
+
+function createEntryView(entry:DuplicateEntry):HTMLLIElement {
+    let li:HTMLLIElement = document.createElement("li");
+
+    let header:HTMLDivElement = document.createElement("div");
+    header.classList.add("header");
+    li.appendChild(header);
+
+    let title:HTMLAnchorElement = document.createElement("a");
+    title.classList.add("title");
+    title.textContent = entry.occurrences[0].title;
+    title.href = entry.occurrences[0].url;
+    title.title = entry.url;
+    header.appendChild(title);
+
+    let button:HTMLButtonElement = document.createElement("button");
+    button.textContent = _i18n("duplicates_remove");
+    button.title = _i18n("duplicates_remove_tooltip");
+    button.addEventListener("click", () => {
+        button.disabled = true;
+        SessionCommand.send("remove-duplicates", {url: entry.url});
+    });
+    header.appendChild(button);
+
+    let occurrences:HTMLOListElement = document.createElement("ol");
+    occurrences.classList.add("occurrences");
+
+    entry.occurrences.forEach((occurrence, i) => {
+        let item:HTMLLIElement = document.createElement("li");
+        item.textContent = _i18n("duplicates_occurrence", [occurrence.sessionTitle, occurrence.title]);
+        item.title = occurrence.url;
+
+        if(i === 0) {
+            item.classList.add("kept");
+        }
+
+        occurrences.appendChild(item);
+    });
+
+    li.appendChild(occurrences);
+
+    return li;
+}
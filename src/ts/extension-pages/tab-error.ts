@@ -1,6 +1,61 @@
 import * as HTMLUtils from "../util/HTMLUtilities.js";
 import { $$ } from "../util/HTMLUtilities.js";
 import * as Clipboard from "../util/Clipboard.js";
+import * as Containers from "../core/Containers.js";
+import { SessionCommand } from "../messages/Messages.js";
+
+/**
+ * Lets the user choose a container that replaces the missing container of this tab.
+ * Other tabs of the missing container will be opened in that container as well.
+ */
+async function showContainerSelection(url:string, missingCookieStoreId:string):Promise<void> {
+    const identities = await Containers.getIdentities();
+    const select = <HTMLSelectElement>$$("container");
+
+    const containers:[string, string][] = [
+        [Containers.DEFAULT_CONTAINER, browser.i18n.getMessage("tab_error_container_default")]
+    ];
+    identities.forEach(identity => containers.push([identity.cookieStoreId, identity.name]));
+
+    containers.forEach(([cookieStoreId, name]) => {
+        const option = document.createElement("option");
+        option.value = cookieStoreId;
+        option.textContent = name;
+        select.appendChild(option);
+    });
+
+    $$("open-container").addEventListener("click", async () => {
+        const cookieStoreId:string = select.value;
+        await Containers.setReplacement(missingCookieStoreId, cookieStoreId);
+
+        const tab = await browser.tabs.getCurrent();
+        const [sessionId, tabBookmarkId] = await Promise.all([
+            browser.sessions.getTabValue(tab.id, "sessionID") as Promise<string|undefined>,
+            browser.sessions.getTabValue(tab.id, "bookmarkID") as Promise<string|undefined>
+        ]);
+
+        if(sessionId && tabBookmarkId) {
+            // the session will replace this tab
+            SessionCommand.send("reopen-in-container", {
+                sessionId: sessionId,
+                cookieStoreId: cookieStoreId,
+                tabBookmarkIds: [tabBookmarkId]
+            });
+        } else {
+            // tabs cannot change their container
+            await browser.tabs.create({
+                url: url,
+                cookieStoreId: cookieStoreId,
+                windowId: tab.windowId,
+                index: tab.index,
+                active: true
+            });
+            browser.tabs.remove(tab.id);
+        }
+    });
+
+    $$("container-section").style.display = "block";
+}
 
 (async function() {
     await HTMLUtils.DOMReady();
@@ -43,6 +98,12 @@ import * as Clipboard from "../util/Clipboard.js";
                     loadReplace: true
                 });
             });
+
+            // or choose a container that replaces the missing one
+            const missingCookieStoreId = params.get("cookieStoreId");
+            if(missingCookieStoreId) {
+                showContainerSelection(url, missingCookieStoreId);
+            }
         } else if(e.includes("illegal url")) {
             if(url.startsWith("file:///")) {
                 description = browser.i18n.getMessage("tab_error_description_files");
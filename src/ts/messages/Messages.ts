@@ -1,4 +1,8 @@
 import { ActiveSessionData } from "../core/ActiveSession.js";
+import { TrashEntry } from "../core/Trash.js";
+import { ExportFormat, ExportedSession } from "../core/Export.js";
+import { Schedule } from "../core/Schedules.js";
+import { ContainerMapping } from "../core/Containers.js";
 import { attempt } from "../util/PromiseUtils.js";
 
 export type MessageType =
@@ -7,7 +11,9 @@ export type MessageType =
     | "SessionCommand"
     | "SessionEvent"
     | "DataRequest"
-    | "OptionUpdate";
+    | "OptionUpdate"
+    | "TrashEvent"
+    | "BackupEvent";
 
 export type MessageDestination = 
       "all"
@@ -15,7 +21,8 @@ export type MessageDestination =
     | "background"
     | "menu"
     | "options-page"
-    | "tab-selector";
+    | "tab-selector"
+    | "duplicates-page";
 
 export class Message {
     public readonly type: MessageType;
@@ -28,7 +35,10 @@ export class Message {
     }
 }
 
-export type SessionCMD = "restore" | "restore-single" | "set-aside" | "create" | "remove" | "remove-tab" | "rename";
+export type SessionCMD = "restore" | "restore-single" | "set-aside" | "create" | "remove" | "remove-tab" | "rename" | "restore-removed" | "import" | "create-backup" | "restore-backup" | "set-tags"
+    | "create-group" | "move-to-group" | "remove-group" | "remove-duplicates" | "merge" | "split"
+    | "move-tab" | "move-session" | "set-note" | "set-schedule"
+    | "set-container" | "reopen-in-container" | "map-containers";
 
 export type CreateSessionArguments = {
     title?:string;
@@ -42,14 +52,79 @@ export type ModifySessionArguments = {
     tabBookmarkId?:string;
     keepBookmarks?:boolean;
     keepTabs?:boolean;
+    newWindow?:boolean; // restore into a new window (regardless of the windowedSession option)
 }
 
 export type ModifySessionMetaArguments = {
     sessionId:string;
-    title:string;
+    title?:string;
+    tags?:string[];
+    tabBookmarkId?:string; // set-note: the note belongs to this tab instead of the session
+    note?:string;
+    schedule?:Schedule;
+}
+
+export type TrashArguments = {
+    entryId:string;
+}
+
+export type ImportArguments = {
+    sessions:ExportedSession[];
+}
+
+export type BackupArguments = {
+    backupId?:string;
+    sessionId?:string;
+}
+
+export type MergeArguments = {
+    sessionId:string; // this session will be merged into the target session
+    targetSessionId:string;
 }
 
-type ArgumentData = CreateSessionArguments | ModifySessionArguments | ModifySessionMetaArguments;
+export type MoveArguments = {
+    sessionId:string; // the session that is moved or the session of the tab
+    tabBookmarkId?:string; // only required for move-tab
+    parentId:string; // target session (move-tab) or target group/root folder (move-session)
+    index?:number; // new position within the parent, appended to the end if undefined
+}
+
+export type GroupArguments = {
+    groupId?:string; // target group, the root folder if undefined
+    sessionId?:string;
+    title?:string;
+}
+
+export type DuplicateArguments = {
+    sessionId?:string; // remove duplicates within this session, across all sessions if undefined
+    url?:string; // normalized URL, only remove duplicates of this URL
+}
+
+export type ContainerArguments = {
+    sessionId:string;
+    cookieStoreId?:string; // the default container if undefined
+    tabBookmarkIds?:string[]; // reopen-in-container: only these tabs, all tabs of the session if undefined
+}
+
+export type ContainerMappingArguments = {
+    sessionId:string;
+    mapping:ContainerMapping; // missing container -> replacement
+    keepBookmarks?:boolean; // the session is restored afterwards (see ModifySessionArguments)
+    newWindow?:boolean;
+}
+
+type ArgumentData = CreateSessionArguments
+                  | ModifySessionArguments
+                  | ModifySessionMetaArguments
+                  | TrashArguments
+                  | ImportArguments
+                  | BackupArguments
+                  | GroupArguments
+                  | MergeArguments
+                  | MoveArguments
+                  | DuplicateArguments
+                  | ContainerArguments
+                  | ContainerMappingArguments;
 
 export class SessionCommand extends Message {
     public readonly cmd:SessionCMD;
@@ -68,19 +143,28 @@ export class SessionCommand extends Message {
     }
 }
 
-type DataDescriptor = "active-sessions" | "state-info" | "previous-window-id";
+export type DataDescriptor = "active-sessions" | "state-info" | "previous-window-id" | "trash" | "export" | "backups" | "duplicates";
+
+export type ExportArguments = {
+    format:ExportFormat;
+    sessionIds?:string[];
+};
+
+type DataRequestArguments = ExportArguments;
 
 export class DataRequest extends Message {
     public readonly data: DataDescriptor;
+    public readonly args?: DataRequestArguments;
 
-    public constructor(data:DataDescriptor) {
+    public constructor(data:DataDescriptor, args?:DataRequestArguments) {
         super("DataRequest", "background");
 
         this.data = data;
+        this.args = args;
     }
 
-    public static async send<T>(data:DataDescriptor):Promise<T> {
-        let m:Message = new DataRequest(data);
+    public static async send<T>(data:DataDescriptor, args?:DataRequestArguments):Promise<T> {
+        let m:Message = new DataRequest(data, args);
         return browser.runtime.sendMessage(m);
     }
 }
@@ -93,7 +177,8 @@ export interface StateInfoData {
     previousWindowId:number;
 }
 
-type SessionEventType = "activated" | "set-aside" | "meta-update" | "content-update" | "removed" | "created" | "moved";
+type SessionEventType = "activated" | "set-aside" | "meta-update" | "content-update" | "removed" | "created" | "moved"
+                      | "group-created";
 
 export class SessionEvent extends Message {
     public readonly sessionId:string;
@@ -112,19 +197,63 @@ export class SessionEvent extends Message {
     }
 }
 
+export type SessionContentChanges = {
+    changedTabs?:string[]; // tab bookmark ids, tabs whose data or position changed
+    addedTabs?:string[];
+    removedTabs?:string[];
+};
+
 export class SessionContentUpdate extends SessionEvent {
-    public readonly changedTabs:string[] = [];
-    public readonly addedTabs:string[] = [];
-    public readonly removedTabs:string[] = [];
+    public readonly changedTabs:string[];
+    public readonly addedTabs:string[];
+    public readonly removedTabs:string[];
 
-    public constructor(sessionId:string) {
+    public constructor(sessionId:string, changes:SessionContentChanges = {}) {
         super(sessionId, "content-update");
+
+        this.changedTabs = changes.changedTabs || [];
+        this.addedTabs = changes.addedTabs || [];
+        this.removedTabs = changes.removedTabs || [];
     }
 
     public static async send(sessionId:string) {
         let m:Message = new SessionContentUpdate(sessionId);
         await attempt(browser.runtime.sendMessage(m));
     }
+
+    /**
+     * Like `send` but views only have to update the given tabs.
+     */
+    public static async sendChanges(sessionId:string, changes:SessionContentChanges) {
+        let m:Message = new SessionContentUpdate(sessionId, changes);
+        await attempt(browser.runtime.sendMessage(m));
+    }
+}
+
+export class TrashEvent extends Message {
+    public readonly entry:TrashEntry;
+
+    public constructor(entry:TrashEntry) {
+        super("TrashEvent", "all");
+
+        this.entry = entry;
+    }
+
+    public static async send(entry:TrashEntry) {
+        let m:Message = new TrashEvent(entry);
+        await attempt(browser.runtime.sendMessage(m));
+    }
+}
+
+export class BackupEvent extends Message {
+    public constructor() {
+        super("BackupEvent", "options-page");
+    }
+
+    public static async send() {
+        let m:Message = new BackupEvent();
+        await attempt(browser.runtime.sendMessage(m));
+    }
 }
 
 export class OptionUpdateEvent extends Message {
@@ -0,0 +1,131 @@
+import { DataRequest, SessionCommand, Message } from "../messages/Messages.js";
+import * as MessageListener from "../messages/MessageListener.js";
+import { BackupSummary, BackupDiff } from "../background/Backups.js";
+import ModalWindow from "../util/ModalWindow.js";
+
+let _i18n = browser.i18n.getMessage;
+
+let table:HTMLTableElement;
+
+export function init():void {
+	table = document.getElementById("backup-list") as HTMLTableElement;
+
+	document.getElementById("backup-now").addEventListener(
+		"click", () => SessionCommand.send("create-backup", {})
+	);
+
+	// backups were created or the current sessions changed (diff)
+	MessageListener.add("*", (message:Message) => {
+		if(message.type === "BackupEvent" || message.type === "SessionEvent") {
+			update();
+		}
+	});
+
+	update();
+}
+
+async function update():Promise<void> {
+	let backups:BackupSummary[] = await DataRequest.send<BackupSummary[]>("backups");
+
+	table.innerHTML = "";
+
+	if(backups.length === 0) {
+		let td = table.insertRow().insertCell();
+		td.textContent = _i18n("option_backups_none");
+		return;
+	}
+
+	backups.forEach(backup => {
+		let tr:HTMLTableRowElement = table.insertRow();
+
+		tr.insertCell().textContent = (new Date(backup.created)).toLocaleString();
+		tr.insertCell().textContent = _i18n(
+			"option_backups_size",
+			[backup.sessions.length + "", backup.tabs + ""]
+		);
+
+		let diff = tr.insertCell();
+		diff.classList.add("diff");
+		diff.textContent = formatDiff(backup.diff);
+
+		let actions = tr.insertCell();
+		actions.classList.add("actions");
+
+		actions.appendChild(createButton("option_backups_sessions", () => showSessions(backup)));
+
+		if(backup.diff.missingSessions > 0) {
+			actions.appendChild(createButton("option_backups_restore_all", async () => {
+				let confirmed = await ModalWindow.confirm(
+					_i18n("option_backups_restore_all_confirm", backup.diff.missingSessions + "")
+				);
+
+				if(confirmed) {
+					SessionCommand.send("restore-backup", {backupId: backup.id});
+				}
+			}));
+		}
+	});
+}
+
+function formatDiff(diff:BackupDiff):string {
+	let changes:string[] = [];
+
+	if(diff.missingSessions > 0) {
+		changes.push(_i18n("option_backups_diff_missing_sessions", diff.missingSessions + ""));
+	}
+
+	if(diff.newSessions > 0) {
+		changes.push(_i18n("option_backups_diff_new_sessions", diff.newSessions + ""));
+	}
+
+	if(diff.missingTabs > 0) {
+		changes.push(_i18n("option_backups_diff_missing_tabs", diff.missingTabs + ""));
+	}
+
+	if(diff.newTabs > 0) {
+		changes.push(_i18n("option_backups_diff_new_tabs", diff.newTabs + ""));
+	}
+
+	return changes.length > 0 ? changes.join(", ") : _i18n("option_backups_diff_none");
+}
+
+function createButton(i18n:string, onclick:() => void):HTMLButtonElement {
+	let button:HTMLButtonElement = document.createElement("button");
+	button.classList.add("browser-style");
+	button.textContent = _i18n(i18n);
+	button.addEventListener("click", onclick);
+
+	return button;
+}
+
+/**
+ * Lists the sessions of a backup, each of them can be restored individually.
+ */
+async function showSessions(backup:BackupSummary):Promise<void> {
+	let modal = new ModalWindow();
+	modal.addHeading((new Date(backup.created)).toLocaleString());
+
+	let sessionTable:HTMLTableElement = document.createElement("table");
+
+	backup.sessions.forEach(session => {
+		let tr = sessionTable.insertRow();
+		tr.insertCell().textContent = session.title;
+		tr.insertCell().textContent = _i18n("option_import_preview_tabs", session.tabs + "");
+		tr.insertCell().textContent = session.exists ? "" : _i18n("option_backups_session_missing");
+
+		let restoreButton = createButton("option_backups_restore", () => {
+			SessionCommand.send("restore-backup", {
+				backupId: backup.id,
+				sessionId: session.id
+			});
+
+			restoreButton.disabled = true;
+		});
+
+		tr.insertCell().appendChild(restoreButton);
+	});
+
+	modal.addContent(sessionTable);
+	modal.setButtons(["close"]);
+	await modal.show();
+}
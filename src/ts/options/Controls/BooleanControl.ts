@@ -1,5 +1,6 @@
 import { Option } from "../OptionTypeDefinition.js";
 import * as OptionsManager from "../OptionsManager.js";
+import * as PageAccess from "../../util/PageAccess.js";
 
 let instanceCounter = 0;
 
@@ -16,7 +17,12 @@ export async function create(row:HTMLDivElement, option:Option):Promise<void> {
     label.setAttribute("for", checkbox.id);
     label.innerText = browser.i18n.getMessage("option_" + option.id);
 
-    checkbox.addEventListener("change", () => {
+    checkbox.addEventListener("change", async () => {
+        if(option.pageAccess && option.pageAccess.includes(checkbox.checked+"") && !(await PageAccess.request())) {
+            checkbox.checked = !checkbox.checked;
+            return;
+        }
+
         OptionsManager.setValue(option.id, checkbox.checked);
     });
 
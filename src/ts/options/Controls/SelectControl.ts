@@ -1,5 +1,6 @@
 import { SelectOption } from "../OptionTypeDefinition.js";
 import * as OptionsManager from "../OptionsManager.js";
+import * as PageAccess from "../../util/PageAccess.js";
 
 let instanceCounter = 0;
 
@@ -30,8 +31,15 @@ export async function create(row:HTMLDivElement, option:SelectOption):Promise<vo
     label.setAttribute("for", select.id);
     label.innerText = browser.i18n.getMessage(i18nMessageName) || "empty";
 
-    select.addEventListener("change", () => {
+    select.addEventListener("change", async () => {
         let x = select.options[select.selectedIndex].value;
+
+        if(option.pageAccess && option.pageAccess.includes(x) && !(await PageAccess.request())) {
+            // keep the previous value
+            select.value = await OptionsManager.getValue<string>(option.id);
+            return;
+        }
+
         OptionsManager.setValue(option.id, x);
     });
 
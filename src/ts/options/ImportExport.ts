@@ -0,0 +1,105 @@
+import * as SessionExport from "../util/SessionExport.js";
+import * as ImportParser from "../core/ImportParser.js";
+import { ParseResult } from "../core/ImportParser.js";
+import { SessionCommand } from "../messages/Messages.js";
+import ModalWindow from "../util/ModalWindow.js";
+
+let _i18n = browser.i18n.getMessage;
+
+export function init():void {
+	let exportButtons:HTMLElement = document.querySelector("#export > .buttons");
+
+	SessionExport.formats.forEach(format => {
+		let button:HTMLButtonElement = document.createElement("button");
+		button.classList.add("browser-style");
+		button.textContent = _i18n("modal_window_button_export_" + format);
+		button.addEventListener("click", () => SessionExport.download(format));
+
+		exportButtons.appendChild(button);
+	});
+
+	let fileInput = document.getElementById("import-file") as HTMLInputElement;
+	let dropZone:HTMLElement = document.getElementById("import-drop-zone");
+
+	fileInput.addEventListener("change", () => {
+		if(fileInput.files.length > 0) {
+			importFile(fileInput.files[0]).then(() => fileInput.value = "");
+		}
+	});
+
+	dropZone.addEventListener("dragover", e => {
+		e.preventDefault();
+		dropZone.classList.add("dragover");
+	});
+
+	dropZone.addEventListener("dragleave", () => dropZone.classList.remove("dragover"));
+
+	dropZone.addEventListener("drop", e => {
+		e.preventDefault();
+		dropZone.classList.remove("dragover");
+
+		if(e.dataTransfer.files.length > 0) {
+			importFile(e.dataTransfer.files[0]);
+		}
+	});
+}
+
+function readFile(file:File):Promise<string> {
+	return new Promise((resolve, reject) => {
+		let reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsText(file);
+	});
+}
+
+async function importFile(file:File):Promise<void> {
+	let result:ParseResult;
+
+	try {
+		let content:string = await readFile(file);
+		let defaultTitle:string = file.name.replace(/\.[^.]*$/, "");
+		result = ImportParser.parse(content, defaultTitle);
+	} catch(e) {
+		console.error("[TA] Import failed.", e);
+		await ModalWindow.alert(_i18n("option_import_error", e + ""));
+		return;
+	}
+
+	if(result.sessions.length === 0) {
+		await ModalWindow.alert(_i18n("option_import_nothing"));
+		return;
+	}
+
+	if(await showPreview(result)) {
+		SessionCommand.send("import", {
+			sessions: result.sessions
+		});
+	}
+}
+
+/**
+ * Shows the sessions that will be imported and asks for confirmation.
+ */
+async function showPreview(result:ParseResult):Promise<boolean> {
+	let modal = new ModalWindow();
+	modal.cancelable = false;
+	modal.addHeading(_i18n("option_import_preview_title"));
+	modal.addText(_i18n("option_import_preview_format_" + result.format));
+
+	modal.addTable(result.sessions.map(session => {
+		let importable:number = session.tabs.filter(tab => ImportParser.isImportable(tab)).length;
+		let skipped:number = session.tabs.length - importable;
+
+		return [
+			session.title,
+			_i18n("option_import_preview_tabs", importable + ""),
+			skipped > 0 ? _i18n("option_import_preview_skipped", skipped + "") : ""
+		];
+	}));
+
+	modal.setButtons(["import", "cancel"]);
+	await modal.show();
+
+	return modal.getButtonPressed() === "import";
+}
@@ -2,6 +2,7 @@ export interface GenericOption<S extends string, T> {
     id: string;
     type: S;
     default: T;
+    pageAccess?:string[]; // values that require access to all pages (see PageAccess)
 }
 
 export interface SelectOption extends GenericOption<"select", string> {
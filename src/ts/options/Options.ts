@@ -35,6 +35,33 @@ let optionsMap:Map<string, Option> = new Map<string, Option>();
             default: true,
             info: true
         },
+        {
+            id: "lazyLoadingStrategy",
+            type: "select",
+            options: ["discard-all", "load-first", "load-progressively"],
+            default: "discard-all",
+            info: true
+        },
+        {
+            id: "lazyLoadingBudget",
+            type: "select",
+            options: ["1", "3", "5", "10"],
+            default: "3"
+        },
+        {
+            id: "restoreFromRecentlyClosed",
+            type: "boolean",
+            default: true,
+            info: true,
+            activeOnly: true
+        },
+        {
+            id: "saveTabState",
+            type: "boolean",
+            default: false,
+            info: true,
+            pageAccess: ["true"]
+        },
         {
             id: "asidePinnedTabs",
             type: "boolean",
@@ -44,10 +71,11 @@ let optionsMap:Map<string, Option> = new Map<string, Option>();
         {
             id: "sidebarTabLayout",
             type: "select",
-            options: ["simple-list"],
+            options: ["simple-list", "grid", "favicon-strip"],
             default: "simple-list",
-            hidden: true,
-            group: "appearance"
+            info: true,
+            group: "appearance",
+            pageAccess: ["grid", "favicon-strip"]
         },
         {
             id: "sidebarAutoOpen",
@@ -67,6 +95,41 @@ let optionsMap:Map<string, Option> = new Map<string, Option>();
             default: true,
             info: true
         },
+        {
+            id: "backupInterval",
+            type: "select",
+            options: ["never", "hourly", "daily", "weekly"],
+            default: "daily",
+            info: true
+        },
+        {
+            id: "backupGenerations",
+            type: "select",
+            options: ["3", "7", "14"],
+            default: "7"
+        },
+        {
+            id: "duplicateCheck",
+            type: "boolean",
+            default: false,
+            info: true
+        },
+        {
+            id: "duplicatesIgnoreFragment",
+            type: "boolean",
+            default: true
+        },
+        {
+            id: "duplicatesIgnoreTrackingParams",
+            type: "boolean",
+            default: true,
+            info: true
+        },
+        {
+            id: "duplicatesIgnoreTrailingSlash",
+            type: "boolean",
+            default: true
+        },
         {
             id: "sessionTitleTemplate",
             type: "string",
@@ -8,6 +8,9 @@ import * as BookmarkControl from "./Controls/BookmarkControl.js";
 import * as SelectControl from "./Controls/SelectControl.js";
 import * as StringControl from "./Controls/StringControl.js";
 
+import * as ImportExport from "./ImportExport.js";
+import * as BackupList from "./BackupList.js";
+
 MessageListener.setDestination("options-page");
 MessageListener.add("OptionUpdate", () => {
     // this will only be triggered by option updates from other pages
@@ -30,6 +33,13 @@ document.addEventListener("DOMContentLoaded", async () => {
         }
     });
 
+    ImportExport.init();
+    BackupList.init();
+
+    document.getElementById("find-duplicates").addEventListener(
+        "click", () => browser.tabs.create({url: "/html/duplicates.html"})
+    );
+
     let section = document.getElementById("main-section");
 
     // iterate over options
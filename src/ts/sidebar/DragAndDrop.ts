@@ -0,0 +1,207 @@
+import { SessionCommand } from "../messages/Messages.js";
+
+/**
+ * Drag and drop of tabs and sessions in the sidebar.
+ * Tabs can be dropped onto other tabs (within a session or into another session)
+ * and onto session headers (appended to that session).
+ * Sessions can be dropped onto other sessions and onto group headers.
+ *
+ * Containers of session views have to provide the id of their folder
+ * (root folder or group) via `data-folder-id`.
+ */
+
+type DragType = "tab" | "session";
+type DropPosition = "before" | "after" | "into";
+
+type DragData = {
+	type:DragType;
+	id:string; // bookmark id of the tab or session
+	parentId:string; // session of the tab or folder of the session
+	index:number; // current position within the parent
+};
+
+const dataType:string = "application/x-tabs-aside";
+const dropClasses:string[] = ["drop-before", "drop-after", "drop-into"];
+
+// dataTransfer data is not accessible during dragover, the current drag is stored here
+let dragged:DragData|null = null;
+
+function getIndex(element:HTMLElement):number {
+	return Array.from(element.parentElement.children).indexOf(element);
+}
+
+function startDrag(e:DragEvent, element:HTMLElement, data:DragData):void {
+	e.stopPropagation();
+
+	dragged = data;
+	e.dataTransfer.setData(dataType, data.id);
+	e.dataTransfer.effectAllowed = "move";
+
+	element.classList.add("dragging");
+}
+
+function endDrag(element:HTMLElement):void {
+	dragged = null;
+	element.classList.remove("dragging");
+}
+
+/**
+ * Returns the position relative to the element depending on the upper or lower half being hovered.
+ */
+function getPosition(e:DragEvent, element:HTMLElement):DropPosition {
+	const rect:DOMRect = element.getBoundingClientRect();
+
+	return e.clientY < rect.top + rect.height / 2 ? "before" : "after";
+}
+
+/**
+ * Registers the event listeners of a drop target.
+ * @param accepts Drag type that can be dropped onto the element
+ * @param position Returns the drop position for a dragover/drop event
+ * @param onDrop Handles the drop
+ */
+function addDropTarget(
+	element:HTMLElement,
+	accepts:DragType,
+	position:(e:DragEvent) => DropPosition,
+	onDrop:(data:DragData, position:DropPosition) => void
+):void {
+	const clear = () => element.classList.remove(...dropClasses);
+
+	element.addEventListener("dragover", e => {
+		if(dragged === null || dragged.type !== accepts || dragged.id === element.dataset.id) {
+			return;
+		}
+
+		e.preventDefault();
+		e.stopPropagation();
+		e.dataTransfer.dropEffect = "move";
+
+		clear();
+		element.classList.add("drop-" + position(e));
+	});
+
+	element.addEventListener("dragleave", clear);
+
+	element.addEventListener("drop", e => {
+		if(dragged === null || dragged.type !== accepts) {
+			return;
+		}
+
+		e.preventDefault();
+		e.stopPropagation();
+		clear();
+
+		onDrop(dragged, position(e));
+	});
+}
+
+/**
+ * Computes the new position of a dragged item that is dropped next to `target`.
+ * @returns The new index or -1 if the position does not change.
+ */
+function getNewIndex(data:DragData, target:HTMLElement, parentId:string, position:DropPosition):number {
+	let index:number = getIndex(target) + (position === "after" ? 1 : 0);
+
+	if(data.parentId === parentId && data.index < index) {
+		// the dragged item is removed before it is inserted again
+		index--;
+	}
+
+	return data.parentId === parentId && data.index === index ? -1 : index;
+}
+
+function getSessionId(tabElement:HTMLElement):string {
+	return tabElement.closest<HTMLElement>("section.session").dataset.id;
+}
+
+function getFolderId(sessionElement:HTMLElement):string {
+	return sessionElement.parentElement.dataset.folderId;
+}
+
+/**
+ * Makes a tab of a tab view draggable and a drop target for other tabs.
+ * @param tabElement Element representing the tab, it has to be a direct child of the tab list
+ * @param tabBookmarkId Bookmark id of the tab
+ */
+export function addTab(tabElement:HTMLElement, tabBookmarkId:string):void {
+	tabElement.draggable = true;
+	tabElement.dataset.id = tabBookmarkId;
+
+	tabElement.addEventListener("dragstart", e => startDrag(e, tabElement, {
+		type: "tab",
+		id: tabBookmarkId,
+		parentId: getSessionId(tabElement),
+		index: getIndex(tabElement)
+	}));
+
+	tabElement.addEventListener("dragend", () => endDrag(tabElement));
+
+	addDropTarget(tabElement, "tab", e => getPosition(e, tabElement), (data, position) => {
+		const sessionId:string = getSessionId(tabElement);
+		const index:number = getNewIndex(data, tabElement, sessionId, position);
+
+		if(index >= 0) {
+			SessionCommand.send("move-tab", {
+				sessionId: data.parentId,
+				tabBookmarkId: data.id,
+				parentId: sessionId,
+				index: index
+			});
+		}
+	});
+}
+
+/**
+ * Makes a session draggable (via its header) and a drop target for sessions and tabs.
+ * Tabs that are dropped onto the header are appended to the session.
+ * @param sessionElement The session view, it has to be a direct child of a session container
+ * @param header Header of the session view
+ */
+export function addSession(sessionElement:HTMLElement, header:HTMLElement):void {
+	const sessionId:string = sessionElement.dataset.id;
+	header.draggable = true;
+
+	header.addEventListener("dragstart", e => startDrag(e, sessionElement, {
+		type: "session",
+		id: sessionId,
+		parentId: getFolderId(sessionElement),
+		index: getIndex(sessionElement)
+	}));
+
+	header.addEventListener("dragend", () => endDrag(sessionElement));
+
+	addDropTarget(sessionElement, "session", e => getPosition(e, sessionElement), (data, position) => {
+		const folderId:string = getFolderId(sessionElement);
+		const index:number = getNewIndex(data, sessionElement, folderId, position);
+
+		if(index >= 0) {
+			SessionCommand.send("move-session", {
+				sessionId: data.id,
+				parentId: folderId,
+				index: index
+			});
+		}
+	});
+
+	addDropTarget(header, "tab", () => "into", data => SessionCommand.send("move-tab", {
+		sessionId: data.parentId,
+		tabBookmarkId: data.id,
+		parentId: sessionId
+	}));
+}
+
+/**
+ * Makes a group header a drop target for sessions, dropped sessions are moved to the top of the group.
+ */
+export function addGroup(header:HTMLElement, groupId:string):void {
+	addDropTarget(header, "session", () => "into", data => {
+		if(data.parentId !== groupId || data.index !== 0) {
+			SessionCommand.send("move-session", {
+				sessionId: data.id,
+				parentId: groupId,
+				index: 0
+			});
+		}
+	});
+}
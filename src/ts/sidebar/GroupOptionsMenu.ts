@@ -0,0 +1,26 @@
+import OverlayMenu from "../util/OverlayMenu.js";
+import GroupView from "./GroupView.js";
+import { SessionCommand } from "../messages/Messages.js";
+import ModalWindow from "../util/ModalWindow.js";
+
+let _i18n = browser.i18n.getMessage;
+
+export default class GroupOptionsMenu extends OverlayMenu {
+	constructor(group:GroupView) {
+		super();
+
+		this.addItem("sidebar_group_rename", () => {
+			group.editTitle();
+		});
+
+		this.addItem("sidebar_group_remove", async () => {
+			const confirmation:boolean = await ModalWindow.confirm(_i18n("sidebar_group_remove_confirm"));
+
+			if(confirmation) {
+				SessionCommand.send("remove-group", {
+					groupId: group.bookmarkId
+				});
+			}
+		}, "options-menu-remove-group");
+	}
+}
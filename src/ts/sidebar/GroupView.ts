@@ -0,0 +1,122 @@
+import { clean } from "../util/HTMLUtilities.js";
+import { SessionCommand } from "../messages/Messages.js";
+import * as EditText from "../util/EditText.js";
+import GroupOptionsMenu from "./GroupOptionsMenu.js";
+import { Bookmark } from "../util/Types.js";
+import * as DragAndDrop from "./DragAndDrop.js";
+
+function i18n(messageName:string):string {
+    return browser.i18n.getMessage("sidebar_"+messageName);
+}
+
+let template:HTMLTemplateElement = document.createElement("template");
+template.innerHTML = clean(`
+    <div class="group-header">
+        <span class="title"></span>
+        <span class="number-of-sessions"></span>
+        <div class="align-right">
+            <div class="controls">
+                <div class="more" title="${i18n("group_more")}"></div>
+            </div>
+        </div>
+    </div>
+    <div class="group-sessions"></div>
+`);
+
+/**
+ * A collapsible container for the session views of a session group.
+ */
+export default class GroupView {
+    public bookmarkId:string;
+
+    private html:HTMLElement;
+    private titleElement:HTMLElement;
+    private sessionCounter:HTMLElement;
+    private sessionContainer:HTMLElement;
+
+    constructor(bookmark:Bookmark) {
+        this.bookmarkId = bookmark.id;
+
+        this.createHTML(bookmark);
+    }
+
+    public getHTML() {
+        return this.html;
+    }
+
+    /**
+     * Returns the element that contains the session views of this group.
+     */
+    public getSessionContainer() {
+        return this.sessionContainer;
+    }
+
+    public async updateMeta() {
+        // cancel title editmode
+        EditText.cancel(this.titleElement);
+
+        let groupBookmark:Bookmark = (await browser.bookmarks.get(this.bookmarkId))[0];
+        this.titleElement.textContent = groupBookmark.title;
+    }
+
+    public updateSessionCount() {
+        this.sessionCounter.textContent = browser.i18n.getMessage(
+            "sidebar_group_number_of_sessions",
+            this.sessionContainer.children.length+""
+        );
+    }
+
+    private createHTML(bookmark:Bookmark) {
+        this.html = document.createElement("section");
+        this.html.classList.add("group", "expanded");
+        this.html.dataset.id = bookmark.id;
+        this.html.appendChild(document.importNode(template.content, true));
+
+        this.titleElement = this.html.querySelector(".title");
+        this.sessionCounter = this.html.querySelector(".number-of-sessions");
+        this.sessionContainer = this.html.querySelector(".group-sessions");
+        this.sessionContainer.dataset.folderId = bookmark.id;
+
+        this.titleElement.textContent = bookmark.title;
+
+        let header:HTMLElement = this.html.querySelector(".group-header");
+        let controls:HTMLElement = header.querySelector(".controls");
+        let moreButton:HTMLElement = controls.querySelector(".more");
+
+        // click on group header -> toggle session visibility
+        header.addEventListener("click", () => this.toggle());
+
+        // do not toggle session visibility when clicking controls
+        controls.addEventListener("click", e => e.stopPropagation());
+
+        this.titleElement.addEventListener("click", e => {
+            e.stopPropagation();
+
+            this.editTitle();
+        });
+
+        moreButton.addEventListener("click", () => {
+            let menu = new GroupOptionsMenu(this);
+            menu.showOn(moreButton);
+        });
+
+        DragAndDrop.addGroup(header, bookmark.id);
+    }
+
+    public toggle() {
+        this.html.classList.toggle("expanded");
+    }
+
+    public editTitle() {
+        EditText.edit(
+            this.titleElement,
+            browser.i18n.getMessage("sidebar_group_title_edit_placeholder"),
+            1
+        ).then((newTitle:string) =>
+            SessionCommand.send("rename", {
+                sessionId: this.bookmarkId,
+                title: newTitle
+            })
+        ).catch(error => console.log("[TA] Error", error));
+    }
+}
@@ -1,14 +1,25 @@
-import { SessionEvent } from "../messages/Messages.js";
+import { SessionEvent, SessionCommand } from "../messages/Messages.js";
 import * as MessageListener from "../messages/MessageListener.js";
 import { $$ } from "../util/HTMLUtilities.js";
+import * as Tags from "../core/Tags.js";
+import * as Notes from "../core/Notes.js";
+import * as SessionGroups from "../core/SessionGroups.js";
+import * as SearchQuery from "./SearchQuery.js";
+import TabData from "../core/TabData.js";
+import SessionView from "./SessionView.js";
+import { Bookmark } from "../util/Types.js";
 
 MessageListener.setDestination("sidebar");
 
+let searchInput:HTMLInputElement;
+let searchClear:HTMLButtonElement;
+let noResultsInfo:HTMLElement;
+
 document.addEventListener("DOMContentLoaded", () => {
     // find HTML elements
-    const searchInput = $$("search-input") as HTMLInputElement;
-    const searchClear = $$("search-clear") as HTMLButtonElement;
-    const noResultsInfo:HTMLElement = $$("search-no-results");
+    searchInput = $$("search-input") as HTMLInputElement;
+    searchClear = $$("search-clear") as HTMLButtonElement;
+    noResultsInfo = $$("search-no-results");
 
     // set up attributes
     noResultsInfo.textContent = browser.i18n.getMessage("sidebar_search_noresults");
@@ -17,34 +28,16 @@ document.addEventListener("DOMContentLoaded", () => {
 
     searchInput.placeholder = browser.i18n.getMessage("sidebar_search_placeholder");
     searchInput.setAttribute("aria-label", searchInput.placeholder);
+    searchInput.title = browser.i18n.getMessage("sidebar_search_syntax");
     searchInput.value = "";
     searchInput.focus();
 
     function clear() {
         searchInput.value = "";
-        searchClear.classList.remove("show");
-        showAll();
+        update();
     }
 
-    searchInput.addEventListener("input", async () => {
-        let query:string = searchInput.value.trim();
-
-        if(query === "") {
-            searchClear.classList.remove("show");
-            showAll();
-        } else {
-            searchClear.classList.add("show");
-            let results:Set<string> = await search(query);
-
-            filterSessions(results);
-
-            if(results.size === 0) {
-                noResultsInfo.classList.add("show");
-            } else {
-                noResultsInfo.classList.remove("show");
-            }
-        }
-    });
+    searchInput.addEventListener("input", update);
 
     searchClear.addEventListener("click", clear);
 
@@ -63,65 +56,306 @@ document.addEventListener("DOMContentLoaded", () => {
     searchInput.addEventListener("keydown", e => {
         if(e.key === "Escape") {
             clear();
+        } else if(e.key === "ArrowDown" || e.key === "ArrowUp") {
+            e.preventDefault();
+
+            moveSelection(e.key === "ArrowDown" ? 1 : -1);
+        } else if(e.key === "Enter") {
+            e.preventDefault();
+
+            restoreSelection(e.shiftKey);
         }
     });
 });
 
 let rootId:string;
 
-// this set of bookmark ids is used to filter search results
-let sessionIds:Set<string> = new Set<string>();
+type CachedSession = {
+    title:string;
+    tabs:{id:string, data:TabData}[];
+};
+
+// session data used to compute search results
+let sessions:Map<string, CachedSession> = new Map();
 
 let sessionContainer:HTMLElement;
+let getSessionView:(sessionId:string) => SessionView;
 
-export async function init(sessionRootId:string, container:HTMLElement) {
+type NavigationItem = {
+    sessionId:string;
+    tabId?:string; // undefined if the item is the session itself
+};
+
+// search results in the order they are displayed, used for keyboard navigation
+let navigationItems:NavigationItem[] = [];
+let selectedItem:number = -1;
+
+/**
+ * @param sessionRootId Bookmark id of the root folder
+ * @param container Element that contains all session views
+ * @param sessionViewGetter Returns the view of a session, used to filter its tabs
+ */
+export async function init(
+    sessionRootId:string,
+    container:HTMLElement,
+    sessionViewGetter:(sessionId:string) => SessionView
+) {
     rootId = sessionRootId;
     sessionContainer = container;
+    getSessionView = sessionViewGetter;
 
-    // initialize sessionIds
-    let sessionBookmarks = await browser.bookmarks.getChildren(rootId);
+    // initialize session cache
+    let sessionBookmarks = SessionGroups.getSessions(await SessionGroups.getSessionTree(rootId));
     sessionBookmarks.forEach(
-        session => sessionIds.add(session.id)
+        session => sessions.set(session.id, toCachedSession(session))
     );
 }
 
+function toCachedSession(sessionBookmark:Bookmark):CachedSession {
+    return {
+        title: sessionBookmark.title,
+        tabs: (sessionBookmark.children || [])
+            .filter(bm => bm.url)
+            .map(bm => ({
+                id: bm.id,
+                data: TabData.createFromBookmark(bm)
+            }))
+    };
+}
+
+async function updateCache(sessionId:string):Promise<void> {
+    try {
+        let [sessionBookmark] = await browser.bookmarks.getSubTree(sessionId);
+        sessions.set(sessionId, toCachedSession(sessionBookmark));
+    } catch(e) {
+        sessions.delete(sessionId);
+    }
+}
+
 /**
- * searches the bookmarks for sessions matching the given query
- * @param query
- * @returns returns the results as a set of ids as a promise
+ * Replaces the current search query and updates the results.
  */
-async function search(query:string):Promise<Set<string>> {
-    let results:Set<string> = new Set<string>();
+export function setQuery(query:string):void {
+    searchInput.value = query;
+    searchInput.dispatchEvent(new Event("input"));
+    searchInput.focus();
+}
 
-    let browserResults = await browser.bookmarks.search(query);
+function isSearching():boolean {
+    return sessionContainer.classList.contains("searching");
+}
 
-    browserResults.forEach(bm => {
-        // ignore root node
-        if(!bm.parentId) { return; }
+/**
+ * Updates the search results for the current query.
+ */
+async function update():Promise<void> {
+    let query = SearchQuery.parse(searchInput.value.trim());
+
+    setSelection(-1);
+    navigationItems = [];
+
+    if(SearchQuery.isEmpty(query)) {
+        searchClear.classList.remove("show");
+        noResultsInfo.classList.remove("show");
+        showAll();
+    } else {
+        searchClear.classList.add("show");
+        let results:Map<string, SearchQuery.SearchResult> = await search(query);
+
+        filterSessions(results);
+        sortSessions(results);
+
+        if(results.size === 0) {
+            noResultsInfo.classList.add("show");
+        } else {
+            noResultsInfo.classList.remove("show");
+        }
+    }
+}
+
+/**
+ * Evaluates the query for every session.
+ * @returns The matching sessions (session id -> result)
+ */
+async function search(query:SearchQuery.SearchQuery):Promise<Map<string, SearchQuery.SearchResult>> {
+    let [tags, notes] = await Promise.all([Tags.getAll(), Notes.getAll()]);
+    let results:Map<string, SearchQuery.SearchResult> = new Map();
+
+    sessions.forEach((session, sessionId) => {
+        let view = getSessionView(sessionId);
 
-        // is this bookmark a session or part of a session ?
-        if(sessionIds.has(bm.id)) {
-            results.add(bm.id);
-        } else if(sessionIds.has(bm.parentId)) {
-            results.add(bm.parentId);
+        let result = SearchQuery.evaluate(query, {
+            id: sessionId,
+            title: session.title,
+            tags: tags.get(sessionId) || [],
+            note: notes.get(sessionId) || "",
+            active: view ? view.isActive() : false,
+            tabs: session.tabs.map(tab => ({
+                id: tab.id,
+                data: tab.data,
+                note: notes.get(tab.id) || ""
+            }))
+        });
+
+        if(result) {
+            results.set(sessionId, result);
         }
     });
 
     return results;
 }
 
-function filterSessions(filter:Set<string>):void {
+function filterSessions(results:Map<string, SearchQuery.SearchResult>):void {
     let sessionViews = sessionContainer.querySelectorAll<HTMLElement>(".session");
 
     sessionViews.forEach(session => {
         let id:string = session.dataset.id || "";
+        let result = results.get(id);
 
-        if(filter.has(id)) {
+        if(result) {
             session.classList.remove("hidden");
         } else {
             session.classList.add("hidden");
         }
+
+        // only list matching tabs
+        let view = getSessionView(id);
+        if(view) {
+            view.setTabFilter(result ? result.tabs : null);
+        }
     });
+
+    // hide groups without results
+    sessionContainer.querySelectorAll<HTMLElement>(".group").forEach(group => {
+        if(group.querySelector(".session:not(.hidden)")) {
+            group.classList.remove("hidden");
+        } else {
+            group.classList.add("hidden");
+        }
+    });
+
+    // groups are expanded while searching
+    sessionContainer.classList.add("searching");
+}
+
+/**
+ * Orders the session views by relevance (without changing the DOM order).
+ * Groups are ordered by their most relevant session.
+ */
+function sortSessions(results:Map<string, SearchQuery.SearchResult>):void {
+    // Array.prototype.sort is stable, sessions with the same score keep their order
+    let ranking:SearchQuery.SearchResult[] = Array.from(results.values())
+        .sort((a, b) => b.score - a.score);
+
+    let groupOrder:Map<HTMLElement, number> = new Map();
+    let topLevelOrder:Map<string, number> = new Map();
+
+    ranking.forEach((result, rank) => {
+        let sessionHTML = sessionContainer.querySelector<HTMLElement>(`.session[data-id="${result.sessionId}"]`);
+        if(!sessionHTML) { return; }
+
+        sessionHTML.style.order = rank + "";
+
+        let group = sessionHTML.parentElement.closest<HTMLElement>(".group");
+        if(group && !groupOrder.has(group)) {
+            groupOrder.set(group, rank);
+        }
+
+        topLevelOrder.set(result.sessionId, group ? groupOrder.get(group) : rank);
+    });
+
+    groupOrder.forEach((rank, group) => group.style.order = rank + "");
+
+    // navigation follows the displayed order, results of a group are displayed together
+    let displayed:SearchQuery.SearchResult[] = ranking
+        .filter(result => topLevelOrder.has(result.sessionId))
+        .sort((a, b) => topLevelOrder.get(a.sessionId) - topLevelOrder.get(b.sessionId));
+
+    navigationItems = [];
+    displayed.forEach(result => {
+        navigationItems.push({sessionId: result.sessionId});
+
+        if(result.tabs) {
+            sessions.get(result.sessionId).tabs
+                .filter(tab => result.tabs.has(tab.id))
+                .forEach(tab => navigationItems.push({sessionId: result.sessionId, tabId: tab.id}));
+        }
+    });
+}
+
+function getNavigationElement(item:NavigationItem):HTMLElement {
+    if(item.tabId) {
+        return document.getElementById("tab" + item.tabId);
+    } else {
+        return sessionContainer.querySelector<HTMLElement>(`.session[data-id="${item.sessionId}"]`);
+    }
+}
+
+function setSelection(index:number):void {
+    if(selectedItem >= 0 && selectedItem < navigationItems.length) {
+        let previous = getNavigationElement(navigationItems[selectedItem]);
+        if(previous) {
+            previous.classList.remove("search-selected");
+        }
+    }
+
+    selectedItem = index;
+
+    if(index >= 0 && index < navigationItems.length) {
+        let element = getNavigationElement(navigationItems[index]);
+
+        if(element) {
+            element.classList.add("search-selected");
+            element.scrollIntoView({block: "nearest"});
+        }
+    }
+}
+
+function moveSelection(delta:number):void {
+    if(navigationItems.length === 0) {
+        return;
+    }
+
+    let index:number = selectedItem + delta;
+
+    // wrap around
+    if(index < 0) {
+        index = navigationItems.length - 1;
+    } else if(index >= navigationItems.length) {
+        index = 0;
+    }
+
+    setSelection(index);
+}
+
+/**
+ * Restores the selected tab or session (or the first result if nothing is selected).
+ * @param newWindow Restore into a new window
+ */
+function restoreSelection(newWindow:boolean):void {
+    let item:NavigationItem = navigationItems[Math.max(selectedItem, 0)];
+
+    if(!item) {
+        return;
+    }
+
+    if(item.tabId) {
+        SessionCommand.send("restore-single", {
+            sessionId: item.sessionId,
+            tabBookmarkId: item.tabId,
+            newWindow: newWindow
+        });
+    } else {
+        let view = getSessionView(item.sessionId);
+
+        // active sessions are already restored
+        if(view && !view.isActive()) {
+            SessionCommand.send("restore", {
+                sessionId: item.sessionId,
+                newWindow: newWindow
+            });
+        }
+    }
 }
 
 function showAll() {
@@ -129,13 +363,38 @@ function showAll() {
 
     sessionViews.forEach(session => {
         session.classList.remove("hidden");
+        session.style.order = "";
+
+        let view = getSessionView(session.dataset.id || "");
+        if(view) {
+            view.setTabFilter(null);
+        }
     });
+
+    sessionContainer.querySelectorAll<HTMLElement>(".group").forEach(group => {
+        group.classList.remove("hidden");
+        group.style.order = "";
+    });
+
+    sessionContainer.classList.remove("searching");
 }
 
-MessageListener.add("SessionEvent", (e:SessionEvent) => {
-    if(e.event === "created") {
-        sessionIds.add(e.sessionId);
-    } else if(e.event === "removed") {
-        sessionIds.delete(e.sessionId);
+MessageListener.add("SessionEvent", async (e:SessionEvent) => {
+    if(e.event === "removed") {
+        sessions.delete(e.sessionId);
+    } else if(e.event === "created" || e.event === "content-update" || e.event === "meta-update") {
+        if(e.event !== "created" && !sessions.has(e.sessionId)) {
+            // not a session (e.g. a group)
+            return;
+        }
+
+        await updateCache(e.sessionId);
+    } else if(e.event !== "activated" && e.event !== "set-aside") {
+        return;
+    }
+
+    // keep results up to date
+    if(isSearching()) {
+        update();
     }
 });
@@ -0,0 +1,276 @@
+import TabData from "../core/TabData.js";
+
+/**
+ * Query language of the sidebar search.
+ *
+ * terms (separated by whitespace, all terms have to match):
+ * 	foo				tab title, hostname, session title or tag matches "foo" (fuzzy) or the URL or a note contains it
+ * 	"foo bar"		same as above but for a phrase
+ * 	site:x.com		tab hostname is x.com or a subdomain of it
+ * 	title:foo		tab title contains "foo"
+ * 	url:foo			tab URL contains "foo"
+ * 	pinned:yes|no	tab is (not) pinned
+ * 	tag:foo			session has the tag "foo"
+ * 	active:yes|no	session is (not) active
+ *
+ * Every term can be negated with a leading "-", values can be quoted.
+ * Free text is matched fuzzy against session titles, tags, tab titles and hostnames
+ * (session and tab notes are only searched for substrings),
+ * the results are ranked by a relevance score.
+ */
+
+type TabFilterKey = "text" | "site" | "title" | "url" | "pinned";
+type SessionFilterKey = "tag" | "active";
+
+interface Term<K> {
+    readonly key:K;
+    readonly value:string; // lower case
+    readonly negated:boolean;
+}
+
+export interface SearchQuery {
+    readonly tabTerms:Term<TabFilterKey>[];
+    readonly sessionTerms:Term<SessionFilterKey>[];
+}
+
+/**
+ * Cached data of a session that is used to compute search results.
+ */
+export interface SearchableSession {
+    readonly id:string;
+    readonly title:string;
+    readonly tags:string[];
+    readonly note:string;
+    readonly active:boolean;
+    readonly tabs:SearchableTab[];
+}
+
+export interface SearchableTab {
+    readonly id:string;
+    readonly data:TabData;
+    readonly note:string;
+}
+
+export interface SearchResult {
+    readonly sessionId:string;
+    // ids of the matching tab bookmarks, null if the session matches as a whole
+    readonly tabs:Set<string>|null;
+    // relevance, higher is better
+    readonly score:number;
+}
+
+const termParser = /(-?)(?:(site|title|url|pinned|tag|active):)?(?:"([^"]*)"?|(\S+))/gi;
+const sessionKeys:Set<string> = new Set(["tag", "active"]);
+const yes:Set<string> = new Set(["yes", "true", "1"]);
+
+export function parse(query:string):SearchQuery {
+    let tabTerms:Term<TabFilterKey>[] = [];
+    let sessionTerms:Term<SessionFilterKey>[] = [];
+
+    let match:RegExpExecArray;
+    termParser.lastIndex = 0;
+
+    while((match = termParser.exec(query)) !== null) {
+        const [, negation, key, quoted, plain] = match;
+        const value:string = (quoted !== undefined ? quoted : plain).toLowerCase();
+
+        if(value === "" && quoted === undefined) {
+            continue;
+        }
+
+        const term = {
+            key: key ? key.toLowerCase() : "text",
+            value: value,
+            negated: negation === "-"
+        };
+
+        if(sessionKeys.has(term.key)) {
+            sessionTerms.push(term as Term<SessionFilterKey>);
+        } else {
+            tabTerms.push(term as Term<TabFilterKey>);
+        }
+    }
+
+    return {
+        tabTerms: tabTerms,
+        sessionTerms: sessionTerms
+    };
+}
+
+export function isEmpty(query:SearchQuery):boolean {
+    return query.tabTerms.length === 0 && query.sessionTerms.length === 0;
+}
+
+/**
+ * Evaluates a query for a single session.
+ * @returns The search result or `null` if the session does not match.
+ */
+export function evaluate(query:SearchQuery, session:SearchableSession):SearchResult|null {
+    if(!query.sessionTerms.every(term => matchesSessionTerm(term, session))) {
+        return null;
+    }
+
+    const sessionText:string = getSessionText(session);
+    const sessionScores:Map<Term<TabFilterKey>, number> = new Map();
+
+    query.tabTerms.filter(term => term.key === "text" && !term.negated).forEach(
+        term => sessionScores.set(term, Math.max(
+            noteScore(term.value, session.note),
+            ...[session.title].concat(session.tags).map(text => fuzzyScore(term.value, text))
+        ))
+    );
+
+    // free text that matches the session title, tags or note matches the whole session
+    // (negated terms still exclude the tabs that match them)
+    if(query.tabTerms.every(term => term.key === "text" && !term.negated && sessionScores.get(term) > 0)) {
+        return {
+            sessionId: session.id,
+            tabs: null,
+            score: sum(Array.from(sessionScores.values()))
+        };
+    }
+
+    let tabs:Set<string> = new Set();
+    let score:number = 0;
+
+    session.tabs.forEach(tab => {
+        let tabScore:number = 0;
+
+        const match:boolean = query.tabTerms.every(term => {
+            if(term.key === "text" && !term.negated) {
+                const termScore:number = Math.max(scoreTab(term.value, tab), sessionScores.get(term));
+                tabScore += termScore;
+                return termScore > 0;
+            }
+
+            return matchesTabTerm(term, tab, sessionText) !== term.negated;
+        });
+
+        if(match) {
+            tabs.add(tab.id);
+            score = Math.max(score, tabScore);
+        }
+    });
+
+    return tabs.size > 0 ? {
+        sessionId: session.id,
+        tabs: tabs,
+        score: score
+    } : null;
+}
+
+function sum(values:number[]):number {
+    return values.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Scores how well a pattern matches a text.
+ * Substrings score higher than fuzzy matches (characters in the same order with gaps),
+ * matches at the beginning of words score higher than matches within a word.
+ * @param pattern Lower case search pattern
+ * @returns 0 if the text does not match
+ */
+export function fuzzyScore(pattern:string, text:string):number {
+    if(pattern.length === 0) {
+        return 0;
+    }
+
+    text = text.toLowerCase();
+    const isWordStart = (i:number) => i === 0 || /[\s\W_]/.test(text[i-1]);
+
+    // substring match
+    const i:number = text.indexOf(pattern);
+    if(i >= 0) {
+        return 4 * pattern.length
+            + (isWordStart(i) ? 5 : 0)
+            + (pattern.length === text.length ? 10 : 0);
+    }
+
+    // fuzzy match
+    let score:number = 0;
+    let p:number = 0;
+    let previous:number = -2;
+
+    for(let j = 0; j < text.length && p < pattern.length; j++) {
+        if(text[j] === pattern[p]) {
+            score += 1
+                + (previous === j - 1 ? 2 : 0)
+                + (isWordStart(j) ? 3 : 0);
+
+            previous = j;
+            p++;
+        }
+    }
+
+    // not all characters were found or matched characters are too scattered
+    if(p < pattern.length || score < 2 * pattern.length) {
+        return 0;
+    }
+
+    return score;
+}
+
+/**
+ * Notes are too long for fuzzy matching (like URLs).
+ */
+function noteScore(pattern:string, note:string):number {
+    return note.toLowerCase().includes(pattern) ? pattern.length : 0;
+}
+
+function scoreTab(pattern:string, tab:SearchableTab):number {
+    return Math.max(
+        fuzzyScore(pattern, tab.data.title),
+        fuzzyScore(pattern, getHostname(tab.data)),
+        // URLs are too long for fuzzy matching
+        tab.data.url.toLowerCase().includes(pattern) ? pattern.length : 0,
+        noteScore(pattern, tab.note)
+    );
+}
+
+function getSessionText(session:SearchableSession):string {
+    return [session.title].concat(session.tags, [session.note]).join("\n").toLowerCase();
+}
+
+function matchesSessionTerm(term:Term<SessionFilterKey>, session:SearchableSession):boolean {
+    let result:boolean;
+
+    if(term.key === "tag") {
+        result = session.tags.some(tag => tag.toLowerCase() === term.value);
+    } else {
+        result = session.active === yes.has(term.value);
+    }
+
+    return result !== term.negated;
+}
+
+/**
+ * Checks whether a tab matches a term (ignoring the negation).
+ */
+function matchesTabTerm(term:Term<TabFilterKey>, searchableTab:SearchableTab, sessionText:string):boolean {
+    const tab:TabData = searchableTab.data;
+    const title:string = tab.title.toLowerCase();
+    const url:string = tab.url.toLowerCase();
+
+    switch(term.key) {
+        case "text":
+            return title.includes(term.value) || url.includes(term.value) || sessionText.includes(term.value)
+                || searchableTab.note.toLowerCase().includes(term.value);
+        case "title":
+            return title.includes(term.value);
+        case "url":
+            return url.includes(term.value);
+        case "pinned":
+            return tab.pinned === yes.has(term.value);
+        case "site":
+            const hostname:string = getHostname(tab);
+            return hostname === term.value || hostname.endsWith("." + term.value);
+    }
+}
+
+function getHostname(tab:TabData):string {
+    try {
+        return tab.getHostname().toLowerCase();
+    } catch(e) {
+        return "";
+    }
+}
@@ -4,6 +4,14 @@ import * as OptionsManager from "../options/OptionsManager.js";
 import { SessionCommand } from "../messages/Messages.js";
 import { Bookmark } from "../util/Types.js";
 import ModalWindow from "../util/ModalWindow.js";
+import * as SessionExport from "../util/SessionExport.js";
+import { ExportFormat } from "../core/Export.js";
+import * as SessionGroups from "../core/SessionGroups.js";
+import * as Notes from "../core/Notes.js";
+import TabData from "../core/TabData.js";
+import * as Schedules from "../core/Schedules.js";
+import { Schedule } from "../core/Schedules.js";
+import * as Containers from "../core/Containers.js";
 
 let _i18n = browser.i18n.getMessage;
 
@@ -35,6 +43,40 @@ export default class SessionOptionsMenu extends OverlayMenu {
 			session.editTitle();
 		});
 
+		this.addItem("sidebar_session_edit_tags", () => {
+			session.editTags();
+		});
+
+		this.addItem("sidebar_session_edit_note", () => {
+			session.editNote();
+		});
+
+		this.addItem("sidebar_session_schedule", () => {
+			showScheduleEditor(session.bookmarkId);
+		}, "options-menu-schedule");
+
+		this.addItem("sidebar_session_container", () => {
+			showSessionContainerSelection(session.bookmarkId);
+		}, "options-menu-container");
+
+		this.addItem("sidebar_session_reopen_in_container", () => {
+			showReopenInContainerSelection(session.bookmarkId);
+		}, "options-menu-reopen-in-container");
+
+		this.addItem("sidebar_session_move_to_group", () => {
+			showGroupSelection(session.bookmarkId);
+		}, "options-menu-move-to-group");
+
+		this.addItem("sidebar_session_merge", () => {
+			showMergeTargetSelection(session.bookmarkId);
+		}, "options-menu-merge");
+
+		this.addItem("sidebar_session_remove_duplicates", () => {
+			SessionCommand.send("remove-duplicates", {
+				sessionId: session.bookmarkId
+			});
+		}, "options-menu-remove-duplicates");
+
 		this.addItem("sidebar_session_remove", async () => {
 			const confirmationRequired:boolean = await OptionsManager.getValue("confirmSessionRemoval");
 
@@ -60,8 +102,28 @@ export default class SessionOptionsMenu extends OverlayMenu {
 			}
 		}, "options-menu-remove-session");
 
+		this.addItem("sidebar_session_export", async () => {
+			let format = await ModalWindow.choose(
+				_i18n("sidebar_session_export_format"),
+				SessionExport.formats.map(f => "export_" + f).concat(["cancel"])
+			);
+
+			if(format && format.startsWith("export_")) {
+				let bookmark:Bookmark = (await browser.bookmarks.get(session.bookmarkId))[0];
+
+				SessionExport.download(
+					format.substr("export_".length) as ExportFormat,
+					[session.bookmarkId],
+					bookmark.title
+				);
+			}
+		}, "options-menu-session-export");
+
 		this.addItem("sidebar_session_details", async () => {
-			let bookmark:Bookmark = (await browser.bookmarks.get(session.bookmarkId))[0];
+			let [bookmark, notes] = await Promise.all([
+				browser.bookmarks.getSubTree(session.bookmarkId).then(bms => bms[0]),
+				Notes.getAll()
+			]);
 
 			let modal = new ModalWindow();
 			modal.addHeading(_i18n("sidebar_session_details_modal_title"));
@@ -70,10 +132,239 @@ export default class SessionOptionsMenu extends OverlayMenu {
 				[_i18n("sidebar_session_details_id"), bookmark.id],
 				[_i18n("sidebar_session_details_index"), ""+bookmark.index],
 				[_i18n("sidebar_session_details_created"), date2str(bookmark.dateAdded)],
-				[_i18n("sidebar_session_details_last_change"), date2str(bookmark.dateGroupModified)]
+				[_i18n("sidebar_session_details_last_change"), date2str(bookmark.dateGroupModified)],
+				[_i18n("sidebar_session_details_note"), notes.get(bookmark.id) || "-"]
 			]);
+
+			const tabNotes:string[][] = (bookmark.children || [])
+				.filter(tabBookmark => notes.has(tabBookmark.id))
+				.map(tabBookmark => [TabData.createFromBookmark(tabBookmark).title, notes.get(tabBookmark.id)]);
+
+			if(tabNotes.length > 0) {
+				modal.addHeading(_i18n("sidebar_session_details_tab_notes"));
+				modal.addTable(tabNotes);
+			}
+
 			modal.setButtons(["close"]);
 			await modal.show();
 		}, "options-menu-session-details");
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Lets the user set a reminder date and the number of days after which an unchanged session is archived.
+ */
+async function showScheduleEditor(sessionId:string):Promise<void> {
+	const schedule:Schedule = await Schedules.getSchedule(sessionId);
+
+	let modal = new ModalWindow();
+	modal.addHeading(_i18n("sidebar_session_schedule_title"));
+
+	let form:HTMLDivElement = document.createElement("div");
+	form.classList.add("schedule-editor");
+
+	const addInput = (label:string, type:string):HTMLInputElement => {
+		let labelElement:HTMLLabelElement = document.createElement("label");
+		labelElement.textContent = label;
+
+		let input:HTMLInputElement = document.createElement("input");
+		input.type = type;
+		input.classList.add("browser-style");
+		labelElement.appendChild(input);
+
+		form.appendChild(labelElement);
+		return input;
+	};
+
+	let reminderDate = addInput(_i18n("sidebar_session_schedule_reminder"), "date");
+	let reminderTime = addInput(_i18n("sidebar_session_schedule_reminder_time"), "time");
+	let archiveAfter = addInput(_i18n("sidebar_session_schedule_archive"), "number");
+	archiveAfter.min = "1";
+
+	if(schedule.remindAt) {
+		const date = new Date(schedule.remindAt);
+		const pad = (n:number) => (n < 10 ? "0" : "") + n;
+		reminderDate.value = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+		reminderTime.value = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+	} else {
+		reminderTime.value = "09:00";
+	}
+
+	if(schedule.archiveAfter) {
+		archiveAfter.value = schedule.archiveAfter + "";
+	}
+
+	modal.addContent(form);
+	modal.setButtons(["ok", "cancel"]);
+	await modal.show();
+
+	if(modal.getButtonPressed() !== "ok") {
+		return;
+	}
+
+	// local time, an empty date removes the reminder
+	const remindAt:number = reminderDate.value ?
+		(new Date(reminderDate.value + "T" + (reminderTime.value || "09:00"))).getTime() : NaN;
+
+	SessionCommand.send("set-schedule", {
+		sessionId: sessionId,
+		schedule: {
+			remindAt: isNaN(remindAt) ? undefined : remindAt,
+			archiveAfter: parseInt(archiveAfter.value) || undefined
+		}
+	});
+}
+
+type Choice = {
+	title:string;
+	disabled?:boolean;
+	onclick:() => void;
+};
+
+/**
+ * Shows a modal window with a list of choices (buttons).
+ * @param text (optional) Text above the list
+ */
+async function showChoices(heading:string, text:string|null, choices:Choice[]):Promise<void> {
+	let modal = new ModalWindow();
+	modal.addHeading(heading);
+
+	if(text) {
+		modal.addText(text);
+	}
+
+	let list:HTMLUListElement = document.createElement("ul");
+	list.classList.add("choice-list");
+
+	choices.forEach(choice => {
+		let li:HTMLLIElement = document.createElement("li");
+		let button:HTMLButtonElement = document.createElement("button");
+		button.classList.add("browser-style");
+		button.textContent = choice.title;
+		button.disabled = choice.disabled || false;
+		button.addEventListener("click", e => {
+			e.stopPropagation();
+
+			choice.onclick();
+			modal.close();
+		});
+
+		li.appendChild(button);
+		list.appendChild(li);
+	});
+
+	modal.addContent(list);
+	modal.setButtons(["cancel"]);
+	await modal.show();
+}
+
+/**
+ * Lets the user choose the group a session should be moved to.
+ */
+async function showGroupSelection(sessionId:string):Promise<void> {
+	const rootFolderId:string = await OptionsManager.getValue("rootFolder");
+	const [session] = await browser.bookmarks.get(sessionId);
+	const groups:Bookmark[] = SessionGroups.getGroups(await SessionGroups.getSessionTree(rootFolderId));
+
+	const moveTo = (groupId?:string) => SessionCommand.send("move-to-group", {
+		sessionId: sessionId,
+		groupId: groupId
+	});
+
+	let choices:Choice[] = groups.map(group => ({
+		title: group.title,
+		disabled: session.parentId === group.id,
+		onclick: () => moveTo(group.id)
+	}));
+
+	choices.push({
+		title: _i18n("sidebar_session_move_to_group_ungrouped"),
+		disabled: session.parentId === rootFolderId,
+		onclick: () => moveTo()
+	});
+
+	await showChoices(
+		_i18n("sidebar_session_move_to_group_title"),
+		groups.length === 0 ? _i18n("sidebar_session_move_to_group_none") : null,
+		choices
+	);
+}
+
+/**
+ * Lets the user choose a container (including the default container).
+ * @param current This container cannot be chosen (`null`: all containers can be chosen)
+ */
+async function showContainerSelection(
+	heading:string,
+	current:string|null,
+	onselect:(cookieStoreId:string|undefined) => void
+):Promise<void> {
+	const identities = await Containers.getIdentities();
+
+	let choices:Choice[] = identities.map(identity => ({
+		title: identity.name,
+		disabled: identity.cookieStoreId === current,
+		onclick: () => onselect(identity.cookieStoreId)
+	}));
+
+	choices.unshift({
+		title: _i18n("sidebar_session_container_none"),
+		disabled: current === Containers.DEFAULT_CONTAINER,
+		onclick: () => onselect(undefined)
+	});
+
+	await showChoices(
+		heading,
+		identities.length === 0 ? _i18n("sidebar_session_container_unavailable") : null,
+		choices
+	);
+}
+
+/**
+ * Lets the user choose the container for new tabs in the session window.
+ */
+async function showSessionContainerSelection(sessionId:string):Promise<void> {
+	await showContainerSelection(
+		_i18n("sidebar_session_container_title"),
+		(await Containers.getSessionContainer(sessionId)) || Containers.DEFAULT_CONTAINER,
+		cookieStoreId => SessionCommand.send("set-container", {
+			sessionId: sessionId,
+			cookieStoreId: cookieStoreId
+		})
+	);
+}
+
+/**
+ * Lets the user choose the container all tabs of the session should be moved to.
+ */
+async function showReopenInContainerSelection(sessionId:string):Promise<void> {
+	await showContainerSelection(
+		_i18n("sidebar_session_reopen_in_container_title"),
+		null,
+		cookieStoreId => SessionCommand.send("reopen-in-container", {
+			sessionId: sessionId,
+			cookieStoreId: cookieStoreId
+		})
+	);
+}
+
+/**
+ * Lets the user choose the session another session should be merged into.
+ */
+async function showMergeTargetSelection(sessionId:string):Promise<void> {
+	const rootFolderId:string = await OptionsManager.getValue("rootFolder");
+	const sessions:Bookmark[] = SessionGroups.getSessions(await SessionGroups.getSessionTree(rootFolderId))
+		.filter(session => session.id !== sessionId);
+
+	await showChoices(
+		_i18n("sidebar_session_merge_title"),
+		_i18n(sessions.length > 0 ? "sidebar_session_merge_text" : "sidebar_session_merge_none"),
+		sessions.map(session => ({
+			title: session.title,
+			onclick: () => SessionCommand.send("merge", {
+				sessionId: sessionId,
+				targetSessionId: session.id
+			})
+		}))
+	);
+}
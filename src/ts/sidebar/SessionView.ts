@@ -1,10 +1,18 @@
 import * as TabViewFactory from "./TabViewFactory.js";
 import {clean} from "../util/HTMLUtilities.js";
 import TabView from "./TabViews/TabView.js";
-import { SessionCommand } from "../messages/Messages.js";
+import FaviconStrip from "./TabViews/FaviconStrip.js";
+import { SessionCommand, SessionContentChanges } from "../messages/Messages.js";
 import * as EditText from "../util/EditText.js";
 import SessionOptionsMenu from "./SessionOptionsMenu.js";
 import { Bookmark } from "../util/Types.js";
+import * as Tags from "../core/Tags.js";
+import * as Notes from "../core/Notes.js";
+import * as Schedules from "../core/Schedules.js";
+import { Schedule } from "../core/Schedules.js";
+import * as Containers from "../core/Containers.js";
+import * as Search from "./Search.js";
+import * as DragAndDrop from "./DragAndDrop.js";
 
 function i18n(messageName:string):string {
     return browser.i18n.getMessage("sidebar_"+messageName);
@@ -14,6 +22,8 @@ let template:HTMLTemplateElement = document.createElement("template");
 template.innerHTML = clean(`
     <div class="header" data-id="">
         <span class="title"></span>
+        <span class="tags"></span>
+        <span class="due"></span>
         <span class="number-of-tabs"></span>
         <div class="align-right">
             <div class="controls">
@@ -23,6 +33,7 @@ template.innerHTML = clean(`
             </div>
         </div>
     </div>
+    <div class="note empty"></div>
     <div class="tab-view"></div>
 `);
 
@@ -31,10 +42,19 @@ export default class SessionView {
 
     private html:HTMLElement;
     private titleElement:HTMLElement;
+    private tagsElement:HTMLElement;
+    private noteElement:HTMLElement;
+    private dueElement:HTMLElement;
     private tabCounter:HTMLElement;
     private tabViewContainer:HTMLElement;
 
     private tabView:TabView = null;
+    // view of the collapsed session (not supported by all layouts)
+    private preview:FaviconStrip = null;
+
+    // search results: only these tabs are listed, null if there is no active search
+    private tabFilter:Set<string> = null;
+    private expandedBySearch:boolean = false;
 
     constructor(bookmark:Bookmark) {
         this.bookmarkId = bookmark.id;
@@ -49,25 +69,131 @@ export default class SessionView {
     }
 
     public async updateMeta() {
-        // cancel title editmode
+        // cancel title, tags & note editmode
         EditText.cancel(this.titleElement);
-
-        let sessionBookmark:Bookmark = (await browser.bookmarks.get(this.bookmarkId))[0];
+        EditText.cancel(this.tagsElement);
+        EditText.cancel(this.noteElement);
+
+        let [[sessionBookmark], tags, note, schedule, cookieStoreId] = await Promise.all([
+            browser.bookmarks.get(this.bookmarkId),
+            Tags.getTags(this.bookmarkId),
+            Notes.getNote(this.bookmarkId),
+            Schedules.getSchedule(this.bookmarkId),
+            Containers.getSessionContainer(this.bookmarkId)
+        ]);
         
         this.titleElement.textContent = sessionBookmark.title;
+        this.renderTags(tags);
+        this.renderNote(note);
+        this.renderDueDates(sessionBookmark, schedule);
+        this.renderContainer(cookieStoreId);
+    }
+
+    /**
+     * Shows the default container of the session as a colored stripe.
+     */
+    private async renderContainer(cookieStoreId:string|undefined):Promise<void> {
+        const identity = cookieStoreId ? await Containers.getIdentity(cookieStoreId) : null;
+
+        this.html.classList.toggle("container", identity !== null);
+
+        if(identity) {
+            this.html.style.setProperty("--container-color", identity.colorCode);
+            this.titleElement.title = browser.i18n.getMessage("sidebar_session_container_tooltip", identity.name);
+        } else {
+            this.html.style.removeProperty("--container-color");
+            this.titleElement.removeAttribute("title");
+        }
     }
 
-    public async updateTabs() {
+    /**
+     * Shows the date of the reminder and the date the session will be archived (if set).
+     */
+    private renderDueDates(sessionBookmark:Bookmark, schedule:Schedule):void {
+        this.dueElement.innerHTML = "";
+
+        const archiveDate:number|undefined = Schedules.getArchiveDate(sessionBookmark, schedule);
+        const dates:[string, number|undefined][] = [
+            ["reminder", schedule.remindAt],
+            ["archive", archiveDate]
+        ];
+
+        dates.filter(([, date]) => date !== undefined).forEach(([type, date]) => {
+            let span:HTMLSpanElement = document.createElement("span");
+            span.classList.add(type);
+            span.textContent = browser.i18n.getMessage(
+                "sidebar_session_" + type + "_due",
+                (new Date(date)).toLocaleDateString()
+            );
+            span.title = (new Date(date)).toLocaleString();
+
+            this.dueElement.appendChild(span);
+        });
+    }
+
+    private renderNote(note:string):void {
+        this.noteElement.textContent = note;
+        this.noteElement.classList.toggle("empty", note === "");
+    }
+
+    private renderTags(tags:string[]):void {
+        this.tagsElement.innerHTML = "";
+
+        tags.forEach(tag => {
+            let chip:HTMLSpanElement = document.createElement("span");
+            chip.classList.add("tag");
+            chip.textContent = tag;
+            chip.title = browser.i18n.getMessage("sidebar_session_tag_filter", tag);
+            chip.addEventListener("click", e => {
+                e.stopPropagation();
+                Search.setQuery("tag:" + (tag.includes(" ") ? `"${tag}"` : tag));
+            });
+
+            this.tagsElement.appendChild(chip);
+        });
+    }
+
+    /**
+     * Updates the tab view and the number of tabs.
+     * @param changes (optional) If set only the given tabs are updated, otherwise the whole tab view
+     */
+    public async updateTabs(changes?:SessionContentChanges) {
         let tabs:Bookmark[] = await browser.bookmarks.getChildren(this.bookmarkId);
 
+        if(this.preview) {
+            this.preview.update(tabs);
+        }
+
+        if(changes && this.tabView) {
+            this.updateTabView(tabs, changes);
+        } else if(this.tabView) {
+            this.tabView.update(tabs);
+        }
+
         this.tabCounter.textContent = browser.i18n.getMessage(
             "sidebar_session_number_of_tabs",
             tabs.length+""
         );
+    }
 
-        if(this.tabView) {
-            this.tabView.update(tabs);
-        }
+    /**
+     * Applies changes to the tab view without recreating it.
+     * @param tabs Current tab bookmarks of this session
+     */
+    private updateTabView(tabs:Bookmark[], changes:SessionContentChanges):void {
+        (changes.removedTabs || []).forEach(id => this.tabView.removeTab(id));
+
+        const added:Set<string> = new Set(changes.addedTabs);
+        const changed:Set<string> = new Set(changes.changedTabs);
+
+        // tabs are sorted by index, inserting them in this order keeps their positions
+        tabs.forEach(tabBookmark => {
+            if(added.has(tabBookmark.id)) {
+                this.tabView.addTab(tabBookmark);
+            } else if(changed.has(tabBookmark.id)) {
+                this.tabView.updateTab(tabBookmark);
+            }
+        });
     }
 
     private createHTML(bookmark:Bookmark) {
@@ -77,9 +203,17 @@ export default class SessionView {
         this.html.appendChild(document.importNode(template.content, true));
 
         this.titleElement = this.html.querySelector(".title");
+        this.tagsElement = this.html.querySelector(".tags");
+        this.noteElement = this.html.querySelector(".note");
+        this.dueElement = this.html.querySelector(".due");
         this.tabCounter = this.html.querySelector(".number-of-tabs");
         this.tabViewContainer = this.html.querySelector(".tab-view");
 
+        this.preview = TabViewFactory.createPreview(this);
+        if(this.preview) {
+            this.tabViewContainer.before(this.preview.getHTML());
+        }
+
         let header:HTMLElement = this.html.querySelector(".header");
         let controls:HTMLElement = header.querySelector(".controls");
         let moreButton:HTMLElement = controls.querySelector(".more");
@@ -105,10 +239,15 @@ export default class SessionView {
             this.editTitle();
         });
 
+        this.noteElement.title = browser.i18n.getMessage("sidebar_note_edit");
+        this.noteElement.addEventListener("click", () => this.editNote());
+
         moreButton.addEventListener("click", () => {
             let menu = new SessionOptionsMenu(this);
             menu.showOn(moreButton);
         });
+
+        DragAndDrop.addSession(this.html, header);
     }
 
     public toggle() {
@@ -126,6 +265,7 @@ export default class SessionView {
     public async expand(data?:Bookmark[]) {
         // create TabView
         let tabView:TabView = TabViewFactory.createTabView(this);
+        tabView.setFilter(this.tabFilter);
         this.tabView = tabView;
 
         // optimization: if data is already available do not hit API again
@@ -141,12 +281,34 @@ export default class SessionView {
 
     public collapse() {
         this.html.classList.remove("expanded");
+        this.expandedBySearch = false;
 
         // remove tab view
         this.tabViewContainer.innerHTML = "";
         this.tabView = null;
     }
 
+    /**
+     * Lists only the given tabs (search results) and expands the session if necessary.
+     * @param tabFilter Set of tab bookmark ids or `null` to list all tabs
+     */
+    public setTabFilter(tabFilter:Set<string>|null):void {
+        this.tabFilter = tabFilter;
+
+        if(tabFilter !== null && !this.isExpanded()) {
+            this.expandedBySearch = true;
+            this.expand();
+            return;
+        } else if(tabFilter === null && this.expandedBySearch) {
+            this.collapse();
+            return;
+        }
+
+        if(this.tabView) {
+            this.tabView.setFilter(tabFilter);
+        }
+    }
+
     public setActiveState(active:boolean):void {
         if(active) {
             this.html.classList.add("active");
@@ -171,4 +333,45 @@ export default class SessionView {
             })
         ).catch(error => console.log("[TA] Error", error));
     }
+
+    public async editTags() {
+        let tags:string[] = await Tags.getTags(this.bookmarkId);
+
+        // replace the tag chips with plain text for editing
+        this.tagsElement.textContent = tags.join(", ");
+
+        EditText.edit(
+            this.tagsElement,
+            browser.i18n.getMessage("sidebar_session_tags_edit_placeholder"),
+            0
+        ).then((newTags:string) =>
+            SessionCommand.send("set-tags", {
+                sessionId: this.bookmarkId,
+                tags: Tags.parse(newTags)
+            })
+        ).catch(
+            () => this.renderTags(tags)
+        );
+    }
+
+    public async editNote() {
+        let note:string = await Notes.getNote(this.bookmarkId);
+
+        // the note element is hidden while there is no note
+        this.renderNote(note);
+        this.noteElement.classList.remove("empty");
+
+        EditText.edit(
+            this.noteElement,
+            browser.i18n.getMessage("sidebar_note_edit_placeholder"),
+            0
+        ).then((newNote:string) =>
+            SessionCommand.send("set-note", {
+                sessionId: this.bookmarkId,
+                note: newNote
+            })
+        ).catch(
+            () => this.renderNote(note)
+        );
+    }
 }
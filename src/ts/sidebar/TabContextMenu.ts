@@ -40,13 +40,27 @@ export default class TabContextMenu extends OverlayMenu {
 					tabBookmarkId: tabBookmark.id
 				});
 			});
+		}
 
-			this.addItem("sidebar_tab_remove_from_session", () => {
-				SessionCommand.send("remove-tab", {
+		this.addItem("sidebar_tab_edit_note", () => {
+			tabView.editNote(tabBookmark);
+		}, "options-menu-tab-note");
+
+		// the first tab cannot be split off (sessions cannot be empty)
+		if(tabBookmark.index > 0) {
+			this.addItem("sidebar_tab_split_session", () => {
+				SessionCommand.send("split", {
 					sessionId: tabBookmark.parentId,
 					tabBookmarkId: tabBookmark.id
 				});
-			}, "options-menu-tab-remove");
+			}, "options-menu-tab-split");
 		}
+
+		this.addItem("sidebar_tab_remove_from_session", () => {
+			SessionCommand.send("remove-tab", {
+				sessionId: tabBookmark.parentId,
+				tabBookmarkId: tabBookmark.id
+			});
+		}, "options-menu-tab-remove");
 	}
 }
\ No newline at end of file
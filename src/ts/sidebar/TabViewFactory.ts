@@ -2,6 +2,8 @@ import TabView from "./TabViews/TabView.js";
 import * as OptionsManager from "../options/OptionsManager.js";
 
 import SimpleList from "./TabViews/SimpleList.js";
+import Grid from "./TabViews/Grid.js";
+import FaviconStrip from "./TabViews/FaviconStrip.js";
 import SessionView from "./SessionView.js";
 
 let tabLayout:string = "simple-list";
@@ -20,8 +22,22 @@ export async function init() {
 }
 
 export function createTabView(sessionView:SessionView):TabView {
-	if(tabLayout === "simple-list") {
+	// the favicon strip layout uses the list for expanded sessions
+	if(tabLayout === "simple-list" || tabLayout === "favicon-strip") {
 		return new SimpleList(sessionView);
+	} else if(tabLayout === "grid") {
+		return new Grid(sessionView);
+	}
+
+	return null;
+}
+
+/**
+ * Creates the view of a collapsed session (if the layout has one).
+ */
+export function createPreview(sessionView:SessionView):FaviconStrip|null {
+	if(tabLayout === "favicon-strip") {
+		return new FaviconStrip(sessionView);
 	}
 
 	return null;
@@ -0,0 +1,90 @@
+import TabData from "../../core/TabData.js";
+import * as Favicons from "../../core/Favicons.js";
+import SessionView from "../SessionView.js";
+
+type Bookmark = browser.bookmarks.BookmarkTreeNode;
+
+// tabs exceeding this number are only counted
+const MAX_ICONS = 50;
+
+/**
+ * An icon has to be recreated if the title or URL of its bookmark changed.
+ */
+function getKey(tabBookmark:Bookmark):string {
+	return tabBookmark.title + "\n" + tabBookmark.url;
+}
+
+/**
+ * A single row of favicons that represents a collapsed session (favicon-strip layout).
+ * Clicking it expands the session.
+ */
+export default class FaviconStrip {
+	private html:HTMLDivElement = document.createElement("div");
+	private more:HTMLSpanElement = document.createElement("span");
+
+	// icons that are currently shown (tab bookmark id -> icon)
+	private icons:Map<string, HTMLImageElement> = new Map();
+
+	constructor(sessionView:SessionView) {
+		this.html.classList.add("favicon-strip");
+		this.html.addEventListener("click", () => sessionView.expand());
+
+		this.more.classList.add("more");
+	}
+
+	public getHTML():HTMLDivElement {
+		return this.html;
+	}
+
+	/**
+	 * Updates the strip, icons of unchanged tabs are reused.
+	 */
+	public update(tabBookmarks:Bookmark[]):void {
+		let icons:Map<string, HTMLImageElement> = new Map();
+
+		tabBookmarks.slice(0, MAX_ICONS).forEach(bm => {
+			let icon:HTMLImageElement = this.icons.get(bm.id);
+
+			if(!icon || icon.dataset.bookmark !== getKey(bm)) {
+				icon = this.createIcon(bm);
+			}
+
+			// appending an existing icon moves it to the new position
+			this.html.appendChild(icon);
+			icons.set(bm.id, icon);
+		});
+
+		this.icons.forEach((icon, id) => {
+			if(icons.get(id) !== icon) {
+				icon.remove();
+			}
+		});
+
+		this.icons = icons;
+
+		if(tabBookmarks.length > MAX_ICONS) {
+			this.more.textContent = "+" + (tabBookmarks.length - MAX_ICONS);
+			this.html.appendChild(this.more);
+		} else {
+			this.more.remove();
+		}
+	}
+
+	private createIcon(tabBookmark:Bookmark):HTMLImageElement {
+		let data:TabData = TabData.createFromBookmark(tabBookmark);
+
+		let icon:HTMLImageElement = document.createElement("img");
+		icon.classList.add("favicon");
+		icon.dataset.bookmark = getKey(tabBookmark);
+		icon.title = data.title + "\n" + data.url;
+		icon.onerror = () => {
+			// show a placeholder instead
+			icon.removeAttribute("src");
+			icon.classList.add("missing");
+		};
+
+		Favicons.getURL(data).then(url => icon.src = url);
+
+		return icon;
+	}
+}
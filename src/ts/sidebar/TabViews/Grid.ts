@@ -0,0 +1,154 @@
+import TabView from "./TabView.js";
+import TabData from "../../core/TabData.js";
+import * as StringUtils from "../../util/StringUtils.js";
+import { SessionCommand } from "../../messages/Messages.js";
+import TabContextMenu from "../TabContextMenu.js";
+import SessionView from "../SessionView.js";
+import * as DragAndDrop from "../DragAndDrop.js";
+import * as Thumbnails from "../../core/Thumbnails.js";
+import * as Favicons from "../../core/Favicons.js";
+import * as Notes from "../../core/Notes.js";
+
+type Bookmark = browser.bookmarks.BookmarkTreeNode;
+
+/**
+ * Shows tabs as cards with a page thumbnail, favicon, title and hostname.
+ */
+export default class Grid extends TabView {
+
+	private list:HTMLOListElement = document.createElement("ol");
+
+	constructor(session:SessionView) {
+		super(session);
+
+		this.list.classList.add("grid");
+	}
+
+	public createHTML(tabBookmarks:Bookmark[]):HTMLOListElement {
+		this.update(tabBookmarks);
+		return this.list;
+	}
+
+	public update(tabBookmarks:Bookmark[]) {
+		this.list.innerHTML = "";
+
+		const notes:Promise<Map<string, string>> = Notes.getAll();
+
+		tabBookmarks.forEach(
+			bm => this.list.appendChild(this.createTabView(bm, notes))
+		);
+
+		this.applyFilter();
+	}
+
+	protected applyFilter():void {
+		this.list.classList.toggle("filtered", this.filter !== null);
+		this.list.querySelectorAll<HTMLLIElement>("li").forEach(li => this.applyFilterTo(li));
+	}
+
+	private applyFilterTo(li:HTMLLIElement):void {
+		const match:boolean = this.filter !== null && this.filter.has(li.dataset.id);
+
+		li.classList.toggle("search-match", match);
+	}
+
+	private getTabElement(tabBookmarkId:string):HTMLLIElement|null {
+		return this.list.querySelector(`li[data-id="${tabBookmarkId}"]`);
+	}
+
+	public updateTab(tabBookmark:Bookmark):void {
+		let li:HTMLLIElement = this.getTabElement(tabBookmark.id);
+
+		if(li) {
+			let newLi:HTMLLIElement = this.createTabView(tabBookmark, Notes.getAll());
+			this.applyFilterTo(newLi);
+			li.replaceWith(newLi);
+
+			this.insertTabElement(this.list, newLi, tabBookmark.index);
+		}
+	}
+
+	public addTab(tabBookmark:Bookmark):void {
+		if(this.getTabElement(tabBookmark.id)) {
+			return this.updateTab(tabBookmark);
+		}
+
+		let li:HTMLLIElement = this.createTabView(tabBookmark, Notes.getAll());
+		this.applyFilterTo(li);
+
+		this.insertTabElement(this.list, li, tabBookmark.index);
+	}
+
+	public removeTab(tabBookmarkId:string):void {
+		let li:HTMLLIElement = this.getTabElement(tabBookmarkId);
+
+		if(li) {
+			li.remove();
+		}
+	}
+
+	private createTabView(tabBookmark:Bookmark, notes:Promise<Map<string, string>>):HTMLLIElement {
+		let data:TabData = TabData.createFromBookmark(tabBookmark);
+
+		let li:HTMLLIElement = document.createElement("li");
+		li.id = "tab" + tabBookmark.id;
+		li.dataset.id = tabBookmark.id;
+		li.classList.add("card");
+		DragAndDrop.addTab(li, tabBookmark.id);
+
+		let a:HTMLAnchorElement = document.createElement("a");
+		a.classList.add("tab");
+		a.dataset.id = tabBookmark.id;
+		a.href = data.url;
+		a.title = data.title;
+		a.onclick = e => {
+			e.preventDefault();
+
+			SessionCommand.send("restore-single", {
+				sessionId: tabBookmark.parentId,
+				tabBookmarkId: tabBookmark.id
+			});
+		};
+		a.addEventListener("contextmenu", e => {
+			e.stopImmediatePropagation();
+			e.preventDefault();
+
+			let menu = new TabContextMenu(this.sessionView, this, tabBookmark);
+			menu.showAt(e.clientX, e.clientY);
+		});
+
+		let thumbnail:HTMLDivElement = document.createElement("div");
+		thumbnail.classList.add("thumbnail");
+		Thumbnails.get(tabBookmark.id).then(url => {
+			if(url) {
+				thumbnail.style.backgroundImage = `url("${url}")`;
+			}
+		});
+
+		let title:HTMLDivElement = document.createElement("div");
+		title.classList.add("title");
+
+		let favicon:HTMLImageElement = document.createElement("img");
+		favicon.classList.add("favicon");
+		favicon.onerror = () => favicon.classList.add("missing");
+		Favicons.getURL(data).then(url => favicon.src = url);
+
+		let titleText:HTMLSpanElement = document.createElement("span");
+		titleText.textContent = StringUtils.limit(data.title, 80);
+
+		title.appendChild(favicon);
+		title.appendChild(titleText);
+
+		let hostname:HTMLDivElement = document.createElement("div");
+		hostname.classList.add("hostname");
+		hostname.textContent = data.getHostname();
+
+		a.appendChild(thumbnail);
+		a.appendChild(title);
+		a.appendChild(hostname);
+		li.appendChild(a);
+		li.appendChild(this.createNoteElement(tabBookmark, notes));
+
+		return li;
+	}
+}
@@ -4,6 +4,8 @@ import * as StringUtils from "../../util/StringUtils.js";
 import { SessionCommand } from "../../messages/Messages.js";
 import TabContextMenu from "../TabContextMenu.js";
 import SessionView from "../SessionView.js";
+import * as DragAndDrop from "../DragAndDrop.js";
+import * as Notes from "../../core/Notes.js";
 
 type Bookmark = browser.bookmarks.BookmarkTreeNode;
 
@@ -26,16 +28,34 @@ export default class SimpleList extends TabView {
 		let ol = this.list;
 		ol.innerHTML = "";
 
+		const notes:Promise<Map<string, string>> = Notes.getAll();
+
 		tabBookmarks.forEach(
-			bm => ol.appendChild(this.createTabView(bm))
+			bm => ol.appendChild(this.createTabView(bm, notes))
 		);
+
+		this.applyFilter();
+	}
+
+	protected applyFilter():void {
+		this.list.classList.toggle("filtered", this.filter !== null);
+
+		this.list.querySelectorAll<HTMLLIElement>("li").forEach(li => this.applyFilterTo(li));
+	}
+
+	private applyFilterTo(li:HTMLLIElement):void {
+		const match:boolean = this.filter !== null && this.filter.has(li.dataset.id);
+
+		li.classList.toggle("search-match", match);
 	}
 
-	private createTabView(tabBookmark:Bookmark):HTMLLIElement {
+	private createTabView(tabBookmark:Bookmark, notes:Promise<Map<string, string>>):HTMLLIElement {
 		let data:TabData = TabData.createFromBookmark(tabBookmark);
 
 		let li:HTMLLIElement = document.createElement("li");
 		li.id = "tab" + tabBookmark.id;
+		li.dataset.id = tabBookmark.id;
+		DragAndDrop.addTab(li, tabBookmark.id);
 
 		let a:HTMLAnchorElement = document.createElement("a");
 		a.classList.add("tab");
@@ -68,6 +88,7 @@ export default class SimpleList extends TabView {
 		}
 
 		li.appendChild(a);
+		li.appendChild(this.createNoteElement(tabBookmark, notes));
 
 		return li;
 	}
@@ -85,10 +106,46 @@ export default class SimpleList extends TabView {
 	}
 
 	public update(tabBookmarks:Bookmark[]) {
-		// temporary solution
 		this.populateList(tabBookmarks);
 	}
 
+	private getTabElement(tabBookmarkId:string):HTMLLIElement|null {
+		return this.list.querySelector(`li[data-id="${tabBookmarkId}"]`);
+	}
+
+	public updateTab(tabBookmark:Bookmark):void {
+		let li:HTMLLIElement = this.getTabElement(tabBookmark.id);
+
+		if(li) {
+			let newLi:HTMLLIElement = this.createTabView(tabBookmark, Notes.getAll());
+			this.applyFilterTo(newLi);
+			li.replaceWith(newLi);
+
+			this.insertTabElement(this.list, newLi, tabBookmark.index);
+		}
+	}
+
+	public addTab(tabBookmark:Bookmark):void {
+		if(this.getTabElement(tabBookmark.id)) {
+			return this.updateTab(tabBookmark);
+		}
+
+		let li:HTMLLIElement = this.createTabView(tabBookmark, Notes.getAll());
+		this.applyFilterTo(li);
+
+		this.insertTabElement(this.list, li, tabBookmark.index);
+		this.setTabCountClass(this.list.children.length);
+	}
+
+	public removeTab(tabBookmarkId:string):void {
+		let li:HTMLLIElement = this.getTabElement(tabBookmarkId);
+
+		if(li) {
+			li.remove();
+			this.setTabCountClass(this.list.children.length);
+		}
+	}
+
 	private createStateIcon(type:"pinned"|"rm"):HTMLElement {
 		let icon = document.createElement("span");
 		icon.classList.add("state-icon");
@@ -1,10 +1,16 @@
 import SessionView from "../SessionView.js";
+import * as Notes from "../../core/Notes.js";
+import * as EditText from "../../util/EditText.js";
+import { SessionCommand } from "../../messages/Messages.js";
 
 type Bookmark = browser.bookmarks.BookmarkTreeNode;
 
 export default abstract class TabView {
 	protected sessionView:SessionView;
 
+	// ids of the tabs that match the current search, null if all tabs should be listed
+	protected filter:Set<string> = null;
+
 	constructor(session:SessionView) {
 		this.sessionView = session;
 	}
@@ -17,4 +23,91 @@ export default abstract class TabView {
 
 	public abstract update(tabBookmarks:Bookmark[]):void;
 
+	/**
+	 * Updates the view of a single tab (e.g. after its title, URL or position changed).
+	 */
+	public abstract updateTab(tabBookmark:Bookmark):void;
+
+	/**
+	 * Inserts the view of a new tab at the position of its bookmark.
+	 */
+	public abstract addTab(tabBookmark:Bookmark):void;
+
+	public abstract removeTab(tabBookmarkId:string):void;
+
+	public setFilter(filter:Set<string>|null):void {
+		this.filter = filter;
+		this.applyFilter();
+	}
+
+	protected abstract applyFilter():void;
+
+	/**
+	 * Inserts a tab element at the given position, an existing element is moved there.
+	 */
+	protected insertTabElement(container:HTMLElement, element:HTMLElement, index:number):void {
+		const next:Element = Array.from(container.children).filter(child => child !== element)[index];
+
+		if(next) {
+			container.insertBefore(element, next);
+		} else {
+			container.appendChild(element);
+		}
+	}
+
+	/**
+	 * Creates the (initially hidden) note element of a tab, the note is loaded asynchronously.
+	 * @param notes All notes (see `Notes.getAll`), load them once for all tabs that are rendered together
+	 */
+	protected createNoteElement(tabBookmark:Bookmark, notes:Promise<Map<string, string>>):HTMLDivElement {
+		let note:HTMLDivElement = document.createElement("div");
+		note.classList.add("note", "empty");
+		note.title = browser.i18n.getMessage("sidebar_note_edit");
+		note.addEventListener("click", e => {
+			e.stopPropagation();
+			this.editNote(tabBookmark);
+		});
+
+		notes.then(noteMap => {
+			const text:string = noteMap.get(tabBookmark.id) || "";
+
+			if(!note.classList.contains("editmode")) {
+				note.textContent = text;
+				note.classList.toggle("empty", text === "");
+			}
+		});
+
+		return note;
+	}
+
+	/**
+	 * Lets the user edit the note of a tab inline.
+	 */
+	public async editNote(tabBookmark:Bookmark):Promise<void> {
+		let note:HTMLElement = document.querySelector(`#tab${tabBookmark.id} .note`);
+
+		if(!note) {
+			return;
+		}
+
+		const text:string = await Notes.getNote(tabBookmark.id);
+		note.textContent = text;
+		note.classList.remove("empty");
+
+		EditText.edit(
+			note,
+			browser.i18n.getMessage("sidebar_note_edit_placeholder"),
+			0
+		).then((newText:string) =>
+			SessionCommand.send("set-note", {
+				sessionId: tabBookmark.parentId,
+				tabBookmarkId: tabBookmark.id,
+				note: newText
+			})
+		).catch(() => {
+			note.textContent = text;
+			note.classList.toggle("empty", text === "");
+		});
+	}
+
 }
\ No newline at end of file
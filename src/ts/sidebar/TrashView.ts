@@ -0,0 +1,69 @@
+import ModalWindow from "../util/ModalWindow.js";
+import { DataRequest, SessionCommand } from "../messages/Messages.js";
+import { TrashEntry, TrashedTab } from "../core/Trash.js";
+import TabData from "../core/TabData.js";
+import { Bookmark } from "../util/Types.js";
+import * as UndoToast from "./UndoToast.js";
+
+let _i18n = browser.i18n.getMessage;
+
+/**
+ * Shows a modal window listing recently removed sessions and tabs.
+ */
+export async function show():Promise<void> {
+	let entries:TrashEntry[] = await DataRequest.send<TrashEntry[]>("trash");
+
+	let modal = new ModalWindow();
+	modal.addHeading(_i18n("sidebar_trash_title"));
+
+	if(entries.length === 0) {
+		modal.addText(_i18n("sidebar_trash_empty"));
+	} else {
+		let list:HTMLUListElement = document.createElement("ul");
+		list.classList.add("trash-list");
+		entries.forEach(entry => list.appendChild(createEntryView(entry)));
+		modal.addContent(list);
+	}
+
+	modal.setButtons(["close"]);
+	await modal.show();
+}
+
+function createEntryView(entry:TrashEntry):HTMLLIElement {
+	let li:HTMLLIElement = document.createElement("li");
+
+	let title:HTMLSpanElement = document.createElement("span");
+	title.classList.add("title");
+	title.textContent = entry.type === "session" ?
+		entry.sessionTitle :
+		entry.tabs.map(tab => getTabTitle(tab)).join(", ");
+	title.title = entry.tabs.map(tab => tab.url).join("\n");
+	li.appendChild(title);
+
+	let details:HTMLSpanElement = document.createElement("span");
+	details.classList.add("details");
+	details.textContent = _i18n(
+		entry.type === "session" ? "sidebar_trash_session_details" : "sidebar_trash_tab_details",
+		[entry.tabs.length+"", entry.sessionTitle, (new Date(entry.removed)).toLocaleString()]
+	);
+	li.appendChild(details);
+
+	let restoreButton:HTMLButtonElement = document.createElement("button");
+	restoreButton.classList.add("browser-style");
+	restoreButton.textContent = _i18n("sidebar_trash_restore");
+	restoreButton.addEventListener("click", e => {
+		e.stopPropagation();
+
+		SessionCommand.send("restore-removed", {entryId: entry.id});
+		UndoToast.hide();
+		li.remove();
+	});
+	li.appendChild(restoreButton);
+
+	return li;
+}
+
+function getTabTitle(tab:TrashedTab):string {
+	// trashed tabs store the bookmark title including TabData flags
+	return TabData.createFromBookmark(tab as Bookmark).title;
+}
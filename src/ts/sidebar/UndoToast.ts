@@ -0,0 +1,64 @@
+import { SessionCommand } from "../messages/Messages.js";
+import { TrashEntry } from "../core/Trash.js";
+import { limit } from "../util/StringUtils.js";
+
+const TOAST_DURATION = 8000;
+
+let toast:HTMLDivElement = document.createElement("div");
+toast.id = "undo-toast";
+
+let text:HTMLSpanElement = document.createElement("span");
+toast.appendChild(text);
+
+let undoButton:HTMLButtonElement = document.createElement("button");
+undoButton.textContent = browser.i18n.getMessage("sidebar_undo");
+toast.appendChild(undoButton);
+
+let currentEntryId:string = null;
+let timeoutId:number = 0;
+
+undoButton.addEventListener("click", () => {
+	if(currentEntryId) {
+		SessionCommand.send("restore-removed", {entryId: currentEntryId});
+	}
+
+	hide();
+});
+
+/**
+ * Shows a toast that allows the user to undo the removal of a session or tabs.
+ * Only the most recent removal is shown.
+ */
+export function show(entry:TrashEntry):void {
+	currentEntryId = entry.id;
+
+	if(entry.type === "session") {
+		text.textContent = browser.i18n.getMessage(
+			"sidebar_undo_session_removed",
+			limit(entry.sessionTitle, 30)
+		);
+	} else {
+		text.textContent = browser.i18n.getMessage(
+			"sidebar_undo_tabs_removed",
+			[entry.tabs.length+"", limit(entry.sessionTitle, 30)]
+		);
+	}
+
+	if(timeoutId > 0) {
+		window.clearTimeout(timeoutId);
+	}
+
+	timeoutId = window.setTimeout(hide, TOAST_DURATION);
+
+	document.body.appendChild(toast);
+}
+
+export function hide():void {
+	if(timeoutId > 0) {
+		window.clearTimeout(timeoutId);
+		timeoutId = 0;
+	}
+
+	currentEntryId = null;
+	toast.remove();
+}
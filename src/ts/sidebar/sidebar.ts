@@ -1,12 +1,17 @@
 import * as TabViewFactory from "./TabViewFactory.js";
 import * as OptionsManager from "../options/OptionsManager.js";
-import { OptionUpdateEvent, Message, SessionEvent, DataRequest, BackgroundPing, ExtensionCommand } from "../messages/Messages.js";
+import { OptionUpdateEvent, Message, SessionEvent, DataRequest, BackgroundPing, ExtensionCommand, TrashEvent, SessionCommand, SessionContentUpdate } from "../messages/Messages.js";
 import SessionView from "./SessionView.js";
+import GroupView from "./GroupView.js";
 import * as Search from "./Search.js";
 import { ActiveSessionData } from "../core/ActiveSession.js";
 import * as MessageListener from "../messages/MessageListener.js";
 import { SolvableError, TabsAsideError } from "../util/Errors.js";
 import * as HTMLUtilities from "../util/HTMLUtilities.js";
+import * as UndoToast from "./UndoToast.js";
+import * as TrashView from "./TrashView.js";
+import * as SessionGroups from "../core/SessionGroups.js";
+import * as DragAndDrop from "./DragAndDrop.js";
 
 type Bookmark = browser.bookmarks.BookmarkTreeNode;
 
@@ -20,6 +25,7 @@ let optionsThatRequireReload:Set<string> = new Set<string>([
 let rootId:string;
 
 let sessionViews:Map<string, SessionView> = new Map();
+let groupViews:Map<string, GroupView> = new Map();
 let activeSessions:Map<string, ActiveSessionData> = new Map();
 let sessionContainer:HTMLElement;
 let noSessionsInfo:HTMLElement;
@@ -39,6 +45,16 @@ Promise.all([
 
 		// apply localization
 		HTMLUtilities.i18n();
+
+		let trashButton = document.getElementById("trash-button");
+		trashButton.title = browser.i18n.getMessage("sidebar_trash_title");
+		trashButton.setAttribute("aria-label", trashButton.title);
+		trashButton.addEventListener("click", () => TrashView.show());
+
+		let newGroupButton = document.getElementById("new-group-button");
+		newGroupButton.title = browser.i18n.getMessage("sidebar_group_create");
+		newGroupButton.setAttribute("aria-label", newGroupButton.title);
+		newGroupButton.addEventListener("click", () => SessionCommand.send("create-group", {}));
 	})
 
 ]).then(() => {
@@ -53,11 +69,11 @@ Promise.all([
 		return Promise.reject(error);
 	});
 }).then(async () => {
-	let sessions:Bookmark[];
+	let sessionTree:SessionGroups.SessionTreeFolder[];
 
 	// request session data
 	try {
-		sessions = await browser.bookmarks.getChildren(rootId);
+		sessionTree = await SessionGroups.getSessionTree(rootId);
 	} catch(e) {
 		let error = new SolvableError("error_noRootFolder");
 		error.setSolution(() => browser.runtime.openOptionsPage());
@@ -67,15 +83,26 @@ Promise.all([
 
 	await getActiveSessions();
 
+	// required by drag and drop
+	sessionContainer.dataset.folderId = rootId;
+
 	// creating views
-	sessions.forEach(sessionBookmark => addView(sessionBookmark));
+	sessionTree.forEach(folder => {
+		if(SessionGroups.isGroup(folder)) {
+			let groupView = addGroupView(folder);
+			folder.children.forEach(sessionBookmark => addView(sessionBookmark, -1, groupView.getSessionContainer()));
+			groupView.updateSessionCount();
+		} else {
+			addView(folder);
+		}
+	});
 
 	noSessionsCheck();
 
 }).then(() => {
 	MessageListener.add("*", messageHandler);
 
-	Search.init(rootId, sessionContainer);
+	Search.init(rootId, sessionContainer, sessionId => sessionViews.get(sessionId));
 }).catch(e => {
 	if(e instanceof TabsAsideError) {
 		document.body.innerHTML = "";
@@ -88,7 +115,13 @@ Promise.all([
 	MessageListener.add("*", () => window.location.reload());
 });
 
-function addView(sessionBookmark:Bookmark, prepend:boolean = false):void {
+/**
+ * Creates a view for a session and adds it to the document.
+ * @param sessionBookmark The session folder bookmark
+ * @param index (optional) Position of the view, appended to the end by default
+ * @param container (optional) Session container of a group, the root container by default
+ */
+function addView(sessionBookmark:Bookmark, index:number = -1, container:HTMLElement = sessionContainer):void {
 	if(sessionViews.has(sessionBookmark.id)) {
 		return updateView(sessionBookmark.id, sessionBookmark);
 	}
@@ -103,14 +136,50 @@ function addView(sessionBookmark:Bookmark, prepend:boolean = false):void {
 
 	// add to document and internal DS
 	sessionViews.set(sessionBookmark.id, view);
+	insertAt(container, view.getHTML(), index);
+
+	noSessionsCheck();
+}
 
-	if(prepend && sessionContainer.firstChild) {
-		sessionContainer.insertBefore(view.getHTML(), sessionContainer.firstChild);
+function addGroupView(groupBookmark:Bookmark, index:number = -1):GroupView {
+	let view = new GroupView(groupBookmark);
+
+	groupViews.set(groupBookmark.id, view);
+	insertAt(sessionContainer, view.getHTML(), index);
+	view.updateSessionCount();
+
+	noSessionsCheck();
+
+	return view;
+}
+
+function insertAt(container:HTMLElement, element:HTMLElement, index:number):void {
+	if(index >= 0 && index < container.children.length) {
+		container.insertBefore(element, container.children[index]);
 	} else {
-		sessionContainer.appendChild(view.getHTML());
+		container.appendChild(element);
 	}
+}
 
-	noSessionsCheck();
+/**
+ * Returns the container for views of bookmarks with the given parent (root folder or group).
+ */
+function getContainer(parentId:string):HTMLElement {
+	let groupView = groupViews.get(parentId);
+
+	return groupView ? groupView.getSessionContainer() : sessionContainer;
+}
+
+/**
+ * Moves a view to the current position of its bookmark.
+ */
+async function moveView(view:SessionView):Promise<void> {
+	let sessionBookmark:Bookmark = (await browser.bookmarks.get(view.bookmarkId))[0];
+
+	view.getHTML().remove();
+	insertAt(getContainer(sessionBookmark.parentId), view.getHTML(), sessionBookmark.index);
+
+	groupViews.forEach(groupView => groupView.updateSessionCount());
 }
 
 function updateView(sessionId:string, sessionBookmark:Bookmark):void {
@@ -122,7 +191,7 @@ function updateView(sessionId:string, sessionBookmark:Bookmark):void {
 }
 
 function noSessionsCheck():void {
-	if(sessionViews.size === 0) {
+	if(sessionViews.size === 0 && groupViews.size === 0) {
 		noSessionsInfo.classList.add("show");
 	} else {
 		noSessionsInfo.classList.remove("show");
@@ -139,6 +208,18 @@ async function getActiveSessions() {
 	response.forEach(data => activeSessions.set(data.bookmarkId, data));
 }
 
+function groupEventHandler(msg:SessionEvent) {
+	let groupView:GroupView = groupViews.get(msg.sessionId);
+
+	if(msg.event === "meta-update") {
+		groupView.updateMeta();
+	} else if(msg.event === "removed") {
+		groupView.getHTML().remove();
+		groupViews.delete(msg.sessionId);
+		noSessionsCheck();
+	}
+}
+
 async function messageHandler(message:Message) {
 	if(message.type === "OptionUpdate") {
 		let msg:OptionUpdateEvent = message as OptionUpdateEvent;
@@ -151,10 +232,20 @@ async function messageHandler(message:Message) {
 
 		let sessionView:SessionView = sessionViews.get(msg.sessionId);
 
+		if(msg.event === "group-created") {
+			let groupBookmark:Bookmark = (await browser.bookmarks.get(msg.sessionId))[0];
+			addGroupView(groupBookmark, groupBookmark.index).editTitle();
+			return;
+		} else if(groupViews.has(msg.sessionId)) {
+			groupEventHandler(msg);
+			return;
+		}
+
 		if(!sessionView) {
 			if(msg.event === "created") {
 				let sessionBookmark:Bookmark = (await browser.bookmarks.get(msg.sessionId))[0];
-				addView(sessionBookmark, true);
+				addView(sessionBookmark, sessionBookmark.index, getContainer(sessionBookmark.parentId));
+				groupViews.forEach(groupView => groupView.updateSessionCount());
 			} else {
 				// we can't modify a non-existing view so...
 				return;
@@ -162,7 +253,14 @@ async function messageHandler(message:Message) {
 		}
 
 		if(msg.event === "content-update") {
-			sessionView.updateTabs();
+			let update = msg as SessionContentUpdate;
+
+			// updates without changes affect the whole session
+			let incremental:boolean = update.changedTabs.length > 0
+				|| update.addedTabs.length > 0
+				|| update.removedTabs.length > 0;
+
+			sessionView.updateTabs(incremental ? update : undefined);
 		} else if(msg.event === "activated") {
 			sessionView.setActiveState(true);
 		} else if(msg.event === "set-aside") {
@@ -172,12 +270,15 @@ async function messageHandler(message:Message) {
 		} else if(msg.event === "removed") {
 			sessionView.getHTML().remove();
 			sessionViews.delete(msg.sessionId);
+			groupViews.forEach(groupView => groupView.updateSessionCount());
 			noSessionsCheck();
 		} else if(msg.event === "moved") {
-			//TODO: support other moves
-			sessionView.getHTML().remove();
-			sessionContainer.prepend(sessionView.getHTML());
+			moveView(sessionView);
 		}
+	} else if(message.type === "TrashEvent") {
+		let msg:TrashEvent = message as TrashEvent;
+
+		UndoToast.show(msg.entry);
 	} else if(message.type === "ExtensionCommand") {
 		let ecm = message as ExtensionCommand;
 
@@ -0,0 +1,28 @@
+/**
+ * Offers the given content as a file download.
+ * @param content File content
+ * @param fileName Suggested file name
+ * @param mimeType MIME type of the content
+ */
+export function saveFile(content:string, fileName:string, mimeType:string = "text/plain"):void {
+	let blob = new Blob([content], {type: mimeType + ";charset=utf-8"});
+	let url = URL.createObjectURL(blob);
+
+	let a:HTMLAnchorElement = document.createElement("a");
+	a.href = url;
+	a.download = fileName;
+	a.style.display = "none";
+	document.body.appendChild(a);
+	a.click();
+	a.remove();
+
+	// give the browser some time to start the download
+	window.setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
+
+/**
+ * Replaces characters that are not allowed in file names.
+ */
+export function toFileName(str:string):string {
+	return str.replace(/[\\/:*?"<>|]+/g, "_").trim() || "export";
+}
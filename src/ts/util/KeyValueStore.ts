@@ -0,0 +1,55 @@
+/**
+ * A minimal promise based key-value store on top of IndexedDB (one database per store).
+ * Extension pages and the background page share the same databases.
+ */
+export default class KeyValueStore<T> {
+	private readonly name:string;
+	private database:Promise<IDBDatabase> = null;
+
+	public constructor(name:string) {
+		this.name = name;
+	}
+
+	private open():Promise<IDBDatabase> {
+		if(!this.database) {
+			this.database = new Promise((resolve, reject) => {
+				const request:IDBOpenDBRequest = indexedDB.open(this.name, 1);
+
+				request.onupgradeneeded = () => request.result.createObjectStore(this.name);
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+		}
+
+		return this.database;
+	}
+
+	private async getObjectStore(mode:IDBTransactionMode):Promise<IDBObjectStore> {
+		const db:IDBDatabase = await this.open();
+		return db.transaction(this.name, mode).objectStore(this.name);
+	}
+
+	public async get(key:string):Promise<T|undefined> {
+		return await toPromise((await this.getObjectStore("readonly")).get(key));
+	}
+
+	public async set(key:string, value:T):Promise<void> {
+		await toPromise((await this.getObjectStore("readwrite")).put(value, key));
+	}
+
+	public async remove(keys:string[]):Promise<void> {
+		const store:IDBObjectStore = await this.getObjectStore("readwrite");
+		await Promise.all(keys.map(key => toPromise(store.delete(key))));
+	}
+
+	public async getKeys():Promise<string[]> {
+		return await toPromise((await this.getObjectStore("readonly")).getAllKeys()) as string[];
+	}
+}
+
+function toPromise<T>(request:IDBRequest<T>):Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
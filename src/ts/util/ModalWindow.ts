@@ -90,6 +90,13 @@ export default class ModalWindow {
 		this.onClosed();
 	}
 
+	/**
+	 * Returns the id of the button that closed the modal or `null`.
+	 */
+	public getButtonPressed():string|null {
+		return this.buttonPressed;
+	}
+
 	public setButtons(buttonIds:string[]):void {
 		this.buttons.innerHTML = "";
 		buttonIds.forEach(buttonId => {
@@ -125,6 +132,20 @@ export default class ModalWindow {
 
 		return modal.buttonPressed === "ok";
 	}
+
+	/**
+	 * Lets the user choose one of the given buttons.
+	 * @returns The id of the pressed button or `null` if the modal was canceled.
+	 */
+	public static async choose(text:string, buttonIds:string[]):Promise<string|null> {
+		let modal = new ModalWindow();
+		modal.addText(text);
+		modal.setButtons(buttonIds);
+
+		await modal.show();
+
+		return modal.buttonPressed;
+	}
 }
 
 background.addEventListener("click", () => {
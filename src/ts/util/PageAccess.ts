@@ -0,0 +1,19 @@
+/**
+ * Access to all pages (optional `<all_urls>` permission) is only required
+ * to capture thumbnails, favicons and tab states.
+ */
+const allPages:browser.permissions.Permissions = {
+    origins: ["<all_urls>"]
+};
+
+export function isGranted():Promise<boolean> {
+    return browser.permissions.contains(allPages);
+}
+
+/**
+ * Asks the user for access to all pages (has to be called from a user input handler).
+ * @returns `true` if access has been granted
+ */
+export function request():Promise<boolean> {
+    return browser.permissions.request(allPages);
+}
@@ -0,0 +1,33 @@
+import { DataRequest } from "../messages/Messages.js";
+import { ExportFormat } from "../core/Export.js";
+import { saveFile, toFileName } from "./FileIO.js";
+import { formatDate } from "./StringUtils.js";
+
+const fileTypes:Map<ExportFormat, [string, string]> = new Map([
+	["json", ["json", "application/json"]],
+	["html", ["html", "text/html"]],
+	["text", ["txt",  "text/plain"]]
+] as [ExportFormat, [string, string]][]);
+
+export const formats:ExportFormat[] = Array.from(fileTypes.keys());
+
+/**
+ * Exports sessions (all by default) and offers the result as a file download.
+ * @param format Export format
+ * @param sessionIds (optional) Bookmark ids of the sessions to export
+ * @param name (optional) File name without extension
+ */
+export async function download(format:ExportFormat, sessionIds?:string[], name?:string):Promise<void> {
+	let content:string = await DataRequest.send<string>("export", {
+		format: format,
+		sessionIds: sessionIds
+	});
+
+	let [extension, mimeType] = fileTypes.get(format);
+
+	if(!name) {
+		name = formatDate("tabs-aside-sessions-$y-$MM-$dd");
+	}
+
+	saveFile(content, toFileName(name) + "." + extension, mimeType);
+}
@@ -0,0 +1,72 @@
+import StoredValue from "./StoredValue.js";
+
+export type StoredMap<T> = {[id:string]: T};
+
+/**
+ * A map that is stored under a single key of the extension storage (`storage.local`).
+ * Modifications are serialized (see `StoredValue`).
+ */
+export default class StorageMap<T> {
+	public readonly key:string;
+	private value:StoredValue<StoredMap<T>>;
+
+	public constructor(key:string) {
+		this.key = key;
+		this.value = new StoredValue(key, () => ({}));
+	}
+
+	/**
+	 * Resolves after pending modifications have been stored.
+	 */
+	public getAll():Promise<StoredMap<T>> {
+		return this.value.get();
+	}
+
+	public async get(id:string):Promise<T|undefined> {
+		return (await this.getAll())[id];
+	}
+
+	/**
+	 * @param modify Modifies the map in place, the map is only stored if it has changed
+	 */
+	public modify<R>(modify:(map:StoredMap<T>) => R):Promise<R> {
+		return this.value.modify(modify);
+	}
+
+	/**
+	 * @param value `undefined` removes the entry
+	 */
+	public set(id:string, value:T|undefined):Promise<void> {
+		return this.modify(map => {
+			if(value === undefined) {
+				delete map[id];
+			} else {
+				map[id] = value;
+			}
+		});
+	}
+
+	public remove(ids:string[]):Promise<void> {
+		return this.modify(map => ids.forEach(id => delete map[id]));
+	}
+
+	/**
+	 * Removes entries when their bookmark is removed (for maps keyed by bookmark ids).
+	 * Only call this from the background page.
+	 */
+	public removeWithBookmarks():void {
+		browser.bookmarks.onRemoved.addListener(async (id, removeInfo) => {
+			let removed:string[] = [id];
+
+			// the contents of a removed folder are not reported individually
+			if(!removeInfo.node.url) {
+				const orphans:string[] = await Promise.all(Object.keys(await this.getAll()).map(
+					bookmarkId => browser.bookmarks.get(bookmarkId).then(() => null, () => bookmarkId)
+				));
+				removed = removed.concat(orphans.filter(bookmarkId => bookmarkId !== null));
+			}
+
+			await this.remove(removed);
+		});
+	}
+}
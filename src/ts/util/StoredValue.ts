@@ -0,0 +1,50 @@
+/**
+ * A value that is stored under a single key of the extension storage (`storage.local`).
+ * Modifications are chained to avoid lost updates between concurrent read-modify-write operations.
+ */
+export default class StoredValue<T> {
+	public readonly key:string;
+	private readonly createDefault:() => T;
+	private queue:Promise<unknown> = Promise.resolve();
+
+	/**
+	 * @param createDefault Creates the value that is used if nothing is stored yet
+	 */
+	public constructor(key:string, createDefault:() => T) {
+		this.key = key;
+		this.createDefault = createDefault;
+	}
+
+	private async load():Promise<T> {
+		const data = await browser.storage.local.get(this.key);
+		return data[this.key] !== undefined ? data[this.key] as T : this.createDefault();
+	}
+
+	/**
+	 * Resolves after pending modifications have been stored.
+	 */
+	public get():Promise<T> {
+		return this.queue.then(() => this.load());
+	}
+
+	/**
+	 * @param modify Modifies the value in place, the value is only stored if it has changed
+	 */
+	public modify<R>(modify:(value:T) => R):Promise<R> {
+		const operation = this.queue.then(async () => {
+			const value:T = await this.load();
+			const before:string = JSON.stringify(value);
+			const result:R = modify(value);
+
+			if(JSON.stringify(value) !== before) {
+				await browser.storage.local.set({[this.key]: value});
+			}
+
+			return result;
+		});
+
+		this.queue = operation.catch(() => {});
+
+		return operation;
+	}
+}
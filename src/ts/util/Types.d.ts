@@ -73,4 +73,14 @@ export type TabMovedListener = (
 
 export type WindowRemovedListener = (windowId:number) => void;
 
+export type BookmarkMovedListener = (
+	id:string,
+	moveInfo:{
+		parentId:string,
+		index:number,
+		oldParentId:string,
+		oldIndex:number
+	}
+) => void;
+
 export type ContextMenuId = string | number;
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Tab, TabCreateProperties, Window } from "./Types";
+import * as Containers from "../core/Containers.js";
 
 export async function getCurrentWindowId():Promise<number> {
     let wnd = await browser.windows.getLastFocused({populate: false});
@@ -15,9 +16,18 @@ const tabErrorUrl = browser.runtime.getURL("html/tab-error.html");
 
 /**
  * Creates a new tab (just like `tabs.create`) but catches errors.
+ * Removed containers are replaced by the container the user has chosen instead (if any).
  * @param createProperties Same as `tabs.create`.
  */
-export function createTab(createProperties:TabCreateProperties):Promise<Tab> {
+export async function createTab(createProperties:TabCreateProperties):Promise<Tab> {
+    if(createProperties.cookieStoreId) {
+        const replacement:string|undefined = await Containers.getReplacement(createProperties.cookieStoreId);
+
+        if(replacement) {
+            createProperties.cookieStoreId = replacement === Containers.DEFAULT_CONTAINER ? undefined : replacement;
+        }
+    }
+
     return browser.tabs.create(createProperties).then(tab => tab, error => {
         console.error("[TA] Failed to create tab: " + error, error);
 
@@ -26,6 +36,10 @@ export function createTab(createProperties:TabCreateProperties):Promise<Tab> {
         params.append("url", createProperties.url);
         params.append("details", error+"");
 
+        if(createProperties.cookieStoreId) {
+            params.append("cookieStoreId", createProperties.cookieStoreId);
+        }
+
         return browser.tabs.create({
             active: createProperties.active,
             pinned: createProperties.pinned,